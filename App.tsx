@@ -3,21 +3,56 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import StartScreen from './components/StartScreen';
 import Canvas from './components/Canvas';
 import WardrobePanel from './components/WardrobeModal';
 import OutfitStack from './components/OutfitStack';
-import { generateVirtualTryOnImage, generatePoseVariation } from './services/geminiService';
-import { OutfitLayer, WardrobeItem } from './types';
+import OutfitHistoryBrowser from './components/OutfitHistoryBrowser';
+import LookbookExport from './components/LookbookExport';
+import ModelSwitcher from './components/ModelSwitcher';
+import BatchTryOn from './components/BatchTryOn';
+import PosePanel from './components/PosePanel';
+import ScenePanel from './components/ScenePanel';
+import CandidatePicker from './components/CandidatePicker';
+import GenerationSettings from './components/GenerationSettings';
+import DebugModal from './components/DebugModal';
+import type { BatchModel } from './services/batchTryOn';
+import { CandidateRequest, GeneratedImage, generateCandidates, generateLookImage, generateVirtualTryOnImage, generatePoseVariation, generateSceneVariation, getCandidateCount, setCandidateCount } from './services/geminiService';
+import { createSessionId, deleteSession, getLastSessionId, listSessions, loadSession, renameSession, saveSession, setLastSessionId } from './services/sessionService';
+import { deleteWardrobeItem, listWardrobeItems, saveWardrobeItem } from './services/wardrobeService';
+import { BUILT_IN_POSES, deleteCustomPose, getCarryPosesOver, getPoseSheet, listPoseLibrary, rememberPose, setCarryPosesOver, setPoseSheet } from './services/poseLibraryService';
+import { GenerationMetadata, ModelCreationMode, ModelCreationSettings, OutfitLayer, OutfitTree, PendingLayer, SavedPose, SceneVariant, SessionSnapshot, SessionSummary, WardrobeItem } from './types';
 import { ChevronDownIcon, ChevronUpIcon } from './components/icons';
 import { defaultWardrobe } from './wardrobe';
 import Footer from './components/Footer';
-import { getFriendlyErrorMessage } from './lib/utils';
+import { getFriendlyErrorMessage, urlToFile } from './lib/utils';
 import Spinner from './components/Spinner';
+import RequestQueueStatus from './components/RequestQueueStatus';
+import { isCancelledError } from './services/retry';
+import { MAX_LOOK_GARMENTS, addLayer, createLayer, createLookLayer, describeLayer, findChildWithGarments, getLayerBaseImage, getLayerGarments, getLayerPath, sameGarments, setPoseImage, updateLayer } from './lib/outfitTree';
+import { computeIdentityHash, hashDistance } from './lib/identityDrift';
+import { DEFAULT_MODEL_CREATION } from './lib/modelCreation';
 
 const INITIAL_POSE_INSTRUCTION = "Initial 3/4 view, natural leg pose";
+const AUTOSAVE_DELAY_MS = 800;
+
+/** Puts the garments of one outfit layer on `baseImageUrl`: a single try-on, or one generation for a whole look. */
+const tryOnLayerGarments = async (baseImageUrl: string, garments: WardrobeItem[], modelMode: ModelCreationMode, signal: AbortSignal): Promise<GeneratedImage> => {
+  const files = await Promise.all(garments.map(garment => urlToFile(garment.url, garment.name)));
+  if (garments.length === 1) {
+    return generateVirtualTryOnImage(baseImageUrl, files[0], garments[0].category, modelMode, signal);
+  }
+  return generateLookImage(baseImageUrl, garments.map((garment, i) => ({ image: files[i], category: garment.category })), modelMode, signal);
+};
+
+interface CandidateChoice {
+  title: string;
+  imageUrls: string[];
+  /** Null when the user discards every result. */
+  resolve: (imageUrl: string | null) => void;
+}
 
 const useMediaQuery = (query: string): boolean => {
   const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
@@ -43,62 +78,552 @@ const useMediaQuery = (query: string): boolean => {
 
 const App: React.FC = () => {
   const [modelImageUrl, setModelImageUrl] = useState<string | null>(null);
-  const [outfitHistory, setOutfitHistory] = useState<OutfitLayer[]>([]);
-  const [currentOutfitIndex, setCurrentOutfitIndex] = useState(0);
+  const [modelCreation, setModelCreation] = useState<ModelCreationSettings>(DEFAULT_MODEL_CREATION);
+  const [outfitTree, setOutfitTree] = useState<OutfitTree>({});
+  const [currentLayerId, setCurrentLayerId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [currentPoseInstruction, setCurrentPoseInstruction] = useState(INITIAL_POSE_INSTRUCTION);
+  // The scene variant shown instead of the pose image; null shows the original.
+  const [activeSceneId, setActiveSceneId] = useState<string | null>(null);
   const [isSheetCollapsed, setIsSheetCollapsed] = useState(false);
+  const [isInspecting, setIsInspecting] = useState(false);
   const [wardrobe, setWardrobe] = useState<WardrobeItem[]>(defaultWardrobe);
+  const [pendingLayers, setPendingLayers] = useState<PendingLayer[]>([]);
+  const [swapTargetIndex, setSwapTargetIndex] = useState<number | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SessionSummary[]>([]);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [outfitReplay, setOutfitReplay] = useState<WardrobeItem[][] | null>(null);
+  const [poseLibrary, setPoseLibrary] = useState<SavedPose[]>(BUILT_IN_POSES);
+  const [poseSheet, setPoseSheetState] = useState<string[]>(getPoseSheet);
+  const [isCarryingPosesOver, setIsCarryingPosesOver] = useState(getCarryPosesOver);
+  // Poses still being regenerated in the background, by layer id.
+  const [backgroundPoses, setBackgroundPoses] = useState<Record<string, string[]>>({});
+  const backgroundControllersRef = useRef(new Set<AbortController>());
+  // How far each layer's face and build have moved from the base model, by layer id (0 to 1).
+  const [layerDrift, setLayerDrift] = useState<Record<string, number>>({});
+  // A layer's initial image never changes, so its identity hash is computed once.
+  const identityHashesRef = useRef(new Map<string, Promise<Uint8Array>>());
+  const [candidateCount, setCandidateCountState] = useState(getCandidateCount);
+  // Results waiting for the user to pick one; the generation awaits the choice.
+  const [candidateChoice, setCandidateChoice] = useState<CandidateChoice | null>(null);
   const isMobile = useMediaQuery('(max-width: 767px)');
+  const generationControllerRef = useRef<AbortController | null>(null);
+  // The signal of the foreground generation, for its status in the request queue.
+  const [generationSignal, setGenerationSignal] = useState<AbortSignal | null>(null);
+
+  // Each foreground generation gets its own AbortController so the loading
+  // overlay's Cancel button can stop it.
+  const beginGeneration = (): AbortSignal => {
+    generationControllerRef.current?.abort();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    setGenerationSignal(controller.signal);
+    return controller.signal;
+  };
+
+  const endGeneration = (signal: AbortSignal) => {
+    if (generationControllerRef.current?.signal === signal) {
+      generationControllerRef.current = null;
+      setGenerationSignal(null);
+    }
+  };
+
+  const handleCancelGeneration = useCallback(() => {
+    generationControllerRef.current?.abort();
+  }, []);
+
+  // Background work belongs to the outfit tree on screen; it stops when that tree is replaced.
+  const cancelBackgroundWork = useCallback(() => {
+    backgroundControllersRef.current.forEach(controller => controller.abort());
+    backgroundControllersRef.current.clear();
+    setBackgroundPoses({});
+  }, []);
+
+  useEffect(() => () => {
+    generationControllerRef.current?.abort();
+    backgroundControllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  const refreshSavedSessions = useCallback(async () => {
+    try {
+      setSavedSessions(await listSessions());
+    } catch (err) {
+      console.error('Failed to list saved sessions', err);
+    }
+  }, []);
+
+  const applySnapshot = (id: string, snapshot: SessionSnapshot) => {
+    setSessionId(id);
+    setModelImageUrl(snapshot.modelImageUrl);
+    setModelCreation(snapshot.modelCreation);
+    setOutfitTree(snapshot.outfitTree);
+    setCurrentLayerId(snapshot.currentLayerId);
+    setCurrentPoseInstruction(snapshot.currentPoseInstruction);
+    setError(null);
+  };
+
+  // Restore the last session on load.
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      const lastId = getLastSessionId();
+      try {
+        const snapshot = lastId ? await loadSession(lastId) : null;
+        if (!cancelled && lastId && snapshot) {
+          applySnapshot(lastId, snapshot);
+        }
+      } catch (err) {
+        console.error('Failed to restore the last session', err);
+        setLastSessionId(null);
+      } finally {
+        if (!cancelled) setIsRestoring(false);
+      }
+    };
+    restore();
+    refreshSavedSessions();
+    listWardrobeItems()
+      .then(items => { if (!cancelled) setWardrobe([...defaultWardrobe, ...items]); })
+      .catch(err => console.error('Failed to load wardrobe', err));
+    listPoseLibrary()
+      .then(poses => { if (!cancelled) setPoseLibrary(poses); })
+      .catch(err => console.error('Failed to load pose library', err));
+    return () => { cancelled = true; };
+  }, [refreshSavedSessions]);
+
+  const sessionSnapshot = useMemo<SessionSnapshot | null>(() => {
+    if (!modelImageUrl || !currentLayerId) return null;
+    return { modelImageUrl, modelCreation, outfitTree, currentLayerId, currentPoseInstruction };
+  }, [modelImageUrl, modelCreation, outfitTree, currentLayerId, currentPoseInstruction]);
+
+  // Autosave the active session whenever its contents change.
+  useEffect(() => {
+    if (isRestoring || !sessionId || !sessionSnapshot) return;
+    const timeout = setTimeout(() => {
+      saveSession(sessionId, sessionSnapshot).catch(err => console.error('Failed to save session', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isRestoring, sessionId, sessionSnapshot]);
+
+  // Saves right away instead of waiting for the autosave, before leaving the model.
+  const saveCurrentSession = async () => {
+    if (sessionId && sessionSnapshot) {
+      await saveSession(sessionId, sessionSnapshot);
+    }
+  };
 
   const activeOutfitLayers = useMemo(() => 
-    outfitHistory.slice(0, currentOutfitIndex + 1), 
-    [outfitHistory, currentOutfitIndex]
+    getLayerPath(outfitTree, currentLayerId), 
+    [outfitTree, currentLayerId]
   );
   
   const activeGarmentIds = useMemo(() => 
-    activeOutfitLayers.map(layer => layer.garment?.id).filter(Boolean) as string[], 
+    activeOutfitLayers.flatMap(getLayerGarments).map(garment => garment.id), 
     [activeOutfitLayers]
   );
   
   const displayImageUrl = useMemo(() => {
-    if (outfitHistory.length === 0) return modelImageUrl;
-    const currentLayer = outfitHistory[currentOutfitIndex];
+    const currentLayer = currentLayerId ? outfitTree[currentLayerId] : undefined;
     if (!currentLayer) return modelImageUrl;
 
-    return currentLayer.poseImages[currentPoseInstruction] ?? Object.values(currentLayer.poseImages)[0];
-  }, [outfitHistory, currentOutfitIndex, currentPoseInstruction, modelImageUrl]);
+    return getLayerBaseImage(currentLayer, currentPoseInstruction);
+  }, [outfitTree, currentLayerId, currentPoseInstruction, modelImageUrl]);
+
+  const currentSceneVariants = useMemo(() => {
+    const currentLayer = currentLayerId ? outfitTree[currentLayerId] : undefined;
+    return (currentLayer?.sceneVariants ?? []).filter(scene => scene.poseInstruction === currentPoseInstruction);
+  }, [outfitTree, currentLayerId, currentPoseInstruction]);
+
+  // The image on the canvas and how it was generated, for the image inspector.
+  // A pose that is still missing shows another pose's image, so match by URL.
+  const inspectedImage = useMemo(() => {
+    const scene = currentSceneVariants.find(variant => variant.id === activeSceneId);
+    if (scene) {
+      return { title: `${scene.poseInstruction} in ${scene.label}`, imageUrl: scene.imageUrl, metadata: scene.metadata };
+    }
+    const currentLayer = currentLayerId ? outfitTree[currentLayerId] : undefined;
+    const instruction = Object.keys(currentLayer?.poseImages ?? {}).find(pose => currentLayer?.poseImages[pose] === displayImageUrl);
+    return {
+      title: instruction ?? currentPoseInstruction,
+      imageUrl: displayImageUrl,
+      metadata: instruction ? currentLayer?.poseMetadata?.[instruction] : undefined,
+    };
+  }, [currentSceneVariants, activeSceneId, outfitTree, currentLayerId, displayImageUrl, currentPoseInstruction]);
+
+  // A scene belongs to one layer and pose; moving away from them shows the original again.
+  useEffect(() => {
+    setActiveSceneId(null);
+  }, [currentLayerId, currentPoseInstruction]);
+
+  // Compares every layer of the outfit on screen with the base model. Try-ons
+  // build on the previous output, so small changes add up over a long stack.
+  useEffect(() => {
+    const [root, ...garmentLayers] = activeOutfitLayers;
+    if (!root || garmentLayers.length === 0) return;
+    let cancelled = false;
+    const hashOf = (layer: OutfitLayer) => {
+      const cache = identityHashesRef.current;
+      let hash = cache.get(layer.id);
+      if (!hash) {
+        hash = computeIdentityHash(getLayerBaseImage(layer, INITIAL_POSE_INSTRUCTION));
+        hash.catch(() => cache.delete(layer.id));
+        cache.set(layer.id, hash);
+      }
+      return hash;
+    };
+    (async () => {
+      try {
+        const baseHash = await hashOf(root);
+        const scores = await Promise.all(garmentLayers.map(async layer => [layer.id, hashDistance(baseHash, await hashOf(layer))] as const));
+        if (!cancelled) setLayerDrift(prev => ({ ...prev, ...Object.fromEntries(scores) }));
+      } catch (err) {
+        console.error('Failed to check the outfit for identity drift', err);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [activeOutfitLayers]);
 
-  const handleModelFinalized = (url: string) => {
+  const handleModelFinalized = (url: string, creation: ModelCreationSettings, metadata: GenerationMetadata | null) => {
+    const baseLayer = createLayer(null, null, { [INITIAL_POSE_INSTRUCTION]: url }, metadata ? { [INITIAL_POSE_INSTRUCTION]: metadata } : undefined);
+    const id = createSessionId();
+    const tree = { [baseLayer.id]: baseLayer };
+    setSessionId(id);
+    setLastSessionId(id);
     setModelImageUrl(url);
-    setOutfitHistory([{
-      garment: null,
-      poseImages: { [INITIAL_POSE_INSTRUCTION]: url }
-    }]);
-    setCurrentOutfitIndex(0);
+    setModelCreation(creation);
+    setOutfitTree(tree);
+    setCurrentLayerId(baseLayer.id);
     setCurrentPoseInstruction(INITIAL_POSE_INSTRUCTION);
+    // Save immediately so the new model shows up in the model switcher.
+    saveSession(id, { modelImageUrl: url, modelCreation: creation, outfitTree: tree, currentLayerId: baseLayer.id, currentPoseInstruction: INITIAL_POSE_INSTRUCTION })
+      .then(refreshSavedSessions)
+      .catch(err => console.error('Failed to save session', err));
   };
 
+  // Returns to the start screen to add or pick a model. The current model
+  // stays saved with its outfits.
   const handleStartOver = () => {
+    handleCancelGeneration();
+    cancelBackgroundWork();
+    saveCurrentSession()
+      .catch(err => console.error('Failed to save session', err))
+      .finally(refreshSavedSessions);
     setModelImageUrl(null);
-    setOutfitHistory([]);
-    setCurrentOutfitIndex(0);
+    setOutfitTree({});
+    setCurrentLayerId(null);
     setIsLoading(false);
     setLoadingMessage('');
     setError(null);
     setCurrentPoseInstruction(INITIAL_POSE_INSTRUCTION);
     setIsSheetCollapsed(false);
-    setWardrobe(defaultWardrobe);
+    setPendingLayers([]);
+    setSwapTargetIndex(null);
+    setSessionId(null);
+    setLastSessionId(null);
+  };
+
+  /**
+   * Switches the dressing screen to another saved model. With `garments`, one
+   * entry per outfit layer, the outfit is replayed on that model once its
+   * outfit tree has loaded.
+   */
+  const handleSwitchModel = async (id: string, garments: WardrobeItem[][] = []) => {
+    if (isLoading || id === sessionId) return;
+    try {
+      await saveCurrentSession();
+      const snapshot = await loadSession(id);
+      if (!snapshot) {
+        refreshSavedSessions();
+        return;
+      }
+      cancelBackgroundWork();
+      applySnapshot(id, snapshot);
+      setLastSessionId(id);
+      setPendingLayers([]);
+      setSwapTargetIndex(null);
+      setOutfitReplay(garments.length > 0 ? garments : null);
+      refreshSavedSessions();
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'Failed to switch models'));
+    }
+  };
+
+  const handleSessionRename = async (id: string, name: string) => {
+    try {
+      await renameSession(id, name);
+    } catch (err) {
+      console.error('Failed to rename session', err);
+    }
+    refreshSavedSessions();
+  };
+
+  const handleSessionSelect = async (id: string) => {
+    try {
+      const snapshot = await loadSession(id);
+      if (!snapshot) {
+        refreshSavedSessions();
+        return;
+      }
+      applySnapshot(id, snapshot);
+      setLastSessionId(id);
+    } catch (err) {
+      console.error('Failed to load session', err);
+    }
+  };
+
+  const handleWardrobeItemSave = useCallback(async (item: WardrobeItem) => {
+    setWardrobe(prev => prev.some(existing => existing.id === item.id)
+      ? prev.map(existing => existing.id === item.id ? item : existing)
+      : [...prev, item]);
+    try {
+      await saveWardrobeItem(item);
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'Failed to save wardrobe item'));
+    }
+  }, []);
+
+  const handleWardrobeItemDelete = useCallback(async (id: string) => {
+    setWardrobe(prev => prev.filter(item => item.id !== id));
+    try {
+      await deleteWardrobeItem(id);
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'Failed to delete wardrobe item'));
+    }
+  }, []);
+
+  const handleSessionDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.error('Failed to delete session', err);
+    }
+    refreshSavedSessions();
+  };
+
+  /**
+   * Switches to an outfit wearing `layers`, the garments of each layer in
+   * order, as a new branch of the tree. Layers up to the first changed
+   * position are shared with the current outfit, existing branches that
+   * already apply the next layers are reused, and every remaining layer is
+   * generated in order on top of them. A look stays a single layer. With
+   * `fromBase`, nothing is reused: every layer is generated afresh on the base
+   * model.
+   */
+  const rebuildOutfit = useCallback(async (layers: WardrobeItem[][], { fromBase = false }: { fromBase?: boolean } = {}) => {
+    if (isLoading) return;
+
+    const currentLayers = activeOutfitLayers.slice(1).map(getLayerGarments);
+    let firstChanged = 0;
+    while (
+      !fromBase &&
+      firstChanged < layers.length &&
+      firstChanged < currentLayers.length &&
+      sameGarments(layers[firstChanged], currentLayers[firstChanged])
+    ) {
+      firstChanged++;
+    }
+    if (!fromBase && firstChanged === layers.length && firstChanged === currentLayers.length) return;
+
+    let parent = activeOutfitLayers[firstChanged];
+    let toApply = layers.slice(firstChanged);
+    while (!fromBase && toApply.length > 0) {
+      const existing = findChildWithGarments(outfitTree, parent.id, toApply[0]);
+      if (!existing) break;
+      parent = existing;
+      toApply = toApply.slice(1);
+    }
+
+    setError(null);
+    setCurrentLayerId(parent.id);
+    setCurrentPoseInstruction(INITIAL_POSE_INSTRUCTION);
+    setPendingLayers(toApply.map(garments => ({ garments, status: 'pending' })));
+    if (toApply.length === 0) return;
+
+    setIsLoading(true);
+    const signal = beginGeneration();
+
+    const layerName = (garments: WardrobeItem[]) => garments.map(garment => garment.name).join(' + ');
+    let applied = 0;
+    try {
+      for (const garments of toApply) {
+        setPendingLayers(prev => prev.map((pending, i) => i === 0 ? { ...pending, status: 'generating' } : pending));
+        setLoadingMessage(`Re-applying ${layerName(garments)} (${applied + 1} of ${toApply.length})...`);
+
+        const baseImageUrl = getLayerBaseImage(parent, INITIAL_POSE_INSTRUCTION);
+        const generated = await tryOnLayerGarments(baseImageUrl, garments, modelCreation.mode, signal);
+
+        const poseImages = { [INITIAL_POSE_INSTRUCTION]: generated.imageUrl };
+        const poseMetadata = { [INITIAL_POSE_INSTRUCTION]: generated.metadata };
+        const layer = garments.length === 1
+          ? createLayer(parent.id, garments[0], poseImages, poseMetadata)
+          : createLookLayer(parent.id, garments, poseImages, poseMetadata);
+        parent = layer;
+        applied++;
+        setOutfitTree(prev => addLayer(prev, layer));
+        setCurrentLayerId(layer.id);
+        setPendingLayers(prev => prev.slice(1));
+      }
+    } catch (err: unknown) {
+      const skipped = toApply.slice(applied).map(layerName).join(', ');
+      if (isCancelledError(err)) {
+        setError(`Rebuild cancelled. Not re-applied: ${skipped}.`);
+      } else {
+        setError(`${getFriendlyErrorMessage(err, 'Failed to rebuild the outfit')} Not re-applied: ${skipped}.`);
+      }
+    } finally {
+      endGeneration(signal);
+      setPendingLayers([]);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [isLoading, activeOutfitLayers, outfitTree, modelCreation.mode]);
+
+  // The garments of every layer above the base model, one entry per layer.
+  const activeLayerGarments = useMemo(
+    () => activeOutfitLayers.slice(1).map(getLayerGarments),
+    [activeOutfitLayers]
+  );
+
+  const batchModels = useMemo<BatchModel[]>(() => savedSessions.flatMap(session =>
+    session.thumbnailUrl ? [{ id: session.id, name: session.name, imageUrl: session.thumbnailUrl, modelMode: session.modelMode }] : []
+  ), [savedSessions]);
+
+  // Runs an outfit carried over from another model once the new model's tree
+  // is in state, so the rebuild starts from that model's layers.
+  useEffect(() => {
+    if (!outfitReplay) return;
+    setOutfitReplay(null);
+    rebuildOutfit(outfitReplay);
+  }, [outfitReplay, rebuildOutfit]);
+
+  const handleRemoveLayer = (index: number) => {
+    if (index <= 0 || isLoading) return;
+    setSwapTargetIndex(null);
+    if (index === activeOutfitLayers.length - 1) {
+      // Removing the top garment needs no regeneration: step back one layer.
+      setCurrentLayerId(activeOutfitLayers[index - 1].id);
+      setCurrentPoseInstruction(INITIAL_POSE_INSTRUCTION);
+      return;
+    }
+    rebuildOutfit(activeLayerGarments.filter((_, i) => i !== index - 1));
+  };
+
+  const handleMoveLayer = (fromIndex: number, toIndex: number) => {
+    if (fromIndex <= 0 || toIndex <= 0 || toIndex >= activeOutfitLayers.length || fromIndex === toIndex) return;
+    setSwapTargetIndex(null);
+    const layers = [...activeLayerGarments];
+    const [moved] = layers.splice(fromIndex - 1, 1);
+    layers.splice(toIndex - 1, 0, moved);
+    rebuildOutfit(layers);
+  };
+
+  /**
+   * Replaces a drifted layer, and everything under it, with a fresh generation
+   * on the base model: its garments are applied as one look, so the model
+   * goes through as few generations as possible. Layers above are rebuilt on it.
+   */
+  const handleRegenerateFromBase = (index: number) => {
+    if (index <= 0 || isLoading) return;
+    setSwapTargetIndex(null);
+    const garments = activeLayerGarments.slice(0, index).flat();
+    const looks: WardrobeItem[][] = [];
+    for (let i = 0; i < garments.length; i += MAX_LOOK_GARMENTS) {
+      looks.push(garments.slice(i, i + MAX_LOOK_GARMENTS));
+    }
+    rebuildOutfit([...looks, ...activeLayerGarments.slice(index)], { fromBase: true });
+  };
+
+  const handleSwapLayer = (index: number) => {
+    setSwapTargetIndex(prev => prev === index ? null : index);
+  };
+
+  const handleSelectLayer = (id: string) => {
+    if (isLoading || !outfitTree[id]) return;
+    setSwapTargetIndex(null);
+    setCurrentLayerId(id);
+    setCurrentPoseInstruction(INITIAL_POSE_INSTRUCTION);
   };
 
+  /**
+   * Regenerates `instructions` for a freshly added layer without blocking the
+   * UI. Each pose is written into the layer as soon as it arrives; a failed pose
+   * is skipped and can still be generated on demand.
+   */
+  const propagatePoses = useCallback(async (layerId: string, baseImageUrl: string, instructions: string[]) => {
+    const controller = new AbortController();
+    backgroundControllersRef.current.add(controller);
+    setBackgroundPoses(prev => ({ ...prev, [layerId]: instructions }));
+    try {
+      for (const instruction of instructions) {
+        try {
+          const { imageUrl, metadata } = await generatePoseVariation(baseImageUrl, instruction, controller.signal, 'background');
+          setOutfitTree(prevTree => updateLayer(prevTree, layerId, layer => layer.poseImages[instruction] ? layer : setPoseImage(layer, instruction, imageUrl, metadata)));
+        } catch (err) {
+          if (isCancelledError(err)) break;
+          console.error(`Failed to carry pose "${instruction}" over to the new outfit`, err);
+        } finally {
+          setBackgroundPoses(prev => prev[layerId]
+            ? { ...prev, [layerId]: prev[layerId].filter(pending => pending !== instruction) }
+            : prev);
+        }
+      }
+    } finally {
+      backgroundControllersRef.current.delete(controller);
+      setBackgroundPoses(prev => {
+        const { [layerId]: _done, ...rest } = prev;
+        return rest;
+      });
+    }
+  }, []);
+
+  const handleCarryPosesOverChange = (enabled: boolean) => {
+    setIsCarryingPosesOver(enabled);
+    setCarryPosesOver(enabled);
+  };
+
+  const handleCandidateCountChange = (count: number) => {
+    setCandidateCountState(count);
+    setCandidateCount(count);
+  };
+
+  /**
+   * Generates `candidateCount` results for `request` and lets the user pick
+   * one. Resolves to null when they discard them all or `signal` aborts.
+   */
+  const generateAndChoose = useCallback(async (request: CandidateRequest, title: string, signal: AbortSignal): Promise<GeneratedImage | null> => {
+    const results = await generateCandidates(request, candidateCount, signal);
+    if (results.length === 1) return results[0];
+    setLoadingMessage('Pick the result you like best...');
+    return new Promise(resolve => {
+      const finish = (imageUrl: string | null) => {
+        signal.removeEventListener('abort', onAbort);
+        setCandidateChoice(null);
+        resolve(results.find(result => result.imageUrl === imageUrl) ?? null);
+      };
+      const onAbort = () => finish(null);
+      signal.addEventListener('abort', onAbort);
+      setCandidateChoice({ title, imageUrls: results.map(result => result.imageUrl), resolve: finish });
+    });
+  }, [candidateCount]);
+
   const handleGarmentSelect = useCallback(async (garmentFile: File, garmentInfo: WardrobeItem) => {
-    if (!displayImageUrl || isLoading) return;
+    const parent = currentLayerId ? outfitTree[currentLayerId] : undefined;
+    if (!parent || isLoading) return;
+
+    if (swapTargetIndex !== null) {
+      setSwapTargetIndex(null);
+      if (!wardrobe.some(item => item.id === garmentInfo.id)) {
+        handleWardrobeItemSave(garmentInfo);
+      }
+      rebuildOutfit(activeLayerGarments.map((garments, i) => i === swapTargetIndex - 1 ? [garmentInfo] : garments));
+      return;
+    }
 
-    const nextLayer = outfitHistory[currentOutfitIndex + 1];
-    if (nextLayer && nextLayer.garment?.id === garmentInfo.id) {
-        setCurrentOutfitIndex(prev => prev + 1);
+    const existingLayer = findChildWithGarments(outfitTree, parent.id, [garmentInfo]);
+    if (existingLayer) {
+        setCurrentLayerId(existingLayer.id);
         setCurrentPoseInstruction(INITIAL_POSE_INSTRUCTION);
         return;
     }
@@ -106,49 +631,114 @@ const App: React.FC = () => {
     setError(null);
     setIsLoading(true);
     setLoadingMessage(`Adding ${garmentInfo.name}...`);
+    const signal = beginGeneration();
 
     try {
-      const newImageUrl = await generateVirtualTryOnImage(displayImageUrl, garmentFile);
+      // Grow the new layer from the parent's initial pose, whatever pose or
+      // scene is on the canvas: it is stored as the initial pose, and that is
+      // the view the identity drift check compares.
+      const generated = await generateAndChoose(
+        { kind: 'try-on', modelImageUrl: getLayerBaseImage(parent, INITIAL_POSE_INSTRUCTION), garmentImage: garmentFile, garmentCategory: garmentInfo.category, modelMode: modelCreation.mode },
+        `Adding ${garmentInfo.name}`,
+        signal,
+      );
+      if (!generated) return;
       
-      const newLayer: OutfitLayer = { 
-        garment: garmentInfo, 
-        poseImages: { [INITIAL_POSE_INSTRUCTION]: newImageUrl } 
-      };
+      const newLayer = createLayer(parent.id, garmentInfo, { [INITIAL_POSE_INSTRUCTION]: generated.imageUrl }, { [INITIAL_POSE_INSTRUCTION]: generated.metadata });
 
-      setOutfitHistory(prevHistory => {
-        const newHistory = prevHistory.slice(0, currentOutfitIndex + 1);
-        return [...newHistory, newLayer];
-      });
-      setCurrentOutfitIndex(prev => prev + 1);
+      setOutfitTree(prevTree => addLayer(prevTree, newLayer));
+      setCurrentLayerId(newLayer.id);
       setCurrentPoseInstruction(INITIAL_POSE_INSTRUCTION);
+
+      const parentPoses = Object.keys(parent.poseImages).filter(pose => pose !== INITIAL_POSE_INSTRUCTION);
+      if (isCarryingPosesOver && parentPoses.length > 0) {
+        propagatePoses(newLayer.id, generated.imageUrl, parentPoses);
+      }
       
-      setWardrobe(prev => {
-        if (prev.find(item => item.id === garmentInfo.id)) {
-            return prev;
-        }
-        return [...prev, garmentInfo];
-      });
+      if (!wardrobe.some(item => item.id === garmentInfo.id)) {
+        handleWardrobeItemSave(garmentInfo);
+      }
     } catch (err: unknown) {
-      setError(getFriendlyErrorMessage(err, 'Failed to apply garment'));
+      if (!isCancelledError(err)) {
+        setError(getFriendlyErrorMessage(err, 'Failed to apply garment'));
+      }
     } finally {
+      endGeneration(signal);
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [displayImageUrl, isLoading, outfitHistory, currentOutfitIndex]);
+  }, [isLoading, outfitTree, currentLayerId, wardrobe, handleWardrobeItemSave, swapTargetIndex, activeLayerGarments, rebuildOutfit, modelCreation.mode, isCarryingPosesOver, propagatePoses, generateAndChoose]);
 
-  const handleRemoveLastGarment = () => {
-    if (currentOutfitIndex > 0) {
-      setCurrentOutfitIndex(prevIndex => prevIndex - 1);
+  /**
+   * Adds `garments` on top of the current outfit in a single generation, as
+   * one layer. The order is the layering order, innermost first.
+   */
+  const handleApplyLook = useCallback(async (garments: WardrobeItem[]) => {
+    const parent = currentLayerId ? outfitTree[currentLayerId] : undefined;
+    if (!parent || isLoading || garments.length < 2) return;
+    setSwapTargetIndex(null);
+
+    const existingLayer = findChildWithGarments(outfitTree, parent.id, garments);
+    if (existingLayer) {
+      setCurrentLayerId(existingLayer.id);
       setCurrentPoseInstruction(INITIAL_POSE_INSTRUCTION);
+      return;
     }
-  };
+
+    setError(null);
+    setIsLoading(true);
+    setLoadingMessage(`Applying a look of ${garments.length} pieces...`);
+    const signal = beginGeneration();
+
+    try {
+      const files = await Promise.all(garments.map(garment => urlToFile(garment.url, garment.name)));
+      const generated = await generateAndChoose(
+        { kind: 'look', modelImageUrl: getLayerBaseImage(parent, INITIAL_POSE_INSTRUCTION), garments: garments.map((garment, i) => ({ image: files[i], category: garment.category })), modelMode: modelCreation.mode },
+        `Applying a look of ${garments.length} pieces`,
+        signal,
+      );
+      if (!generated) return;
+      const newLayer = createLookLayer(parent.id, garments, { [INITIAL_POSE_INSTRUCTION]: generated.imageUrl }, { [INITIAL_POSE_INSTRUCTION]: generated.metadata });
+
+      setOutfitTree(prevTree => addLayer(prevTree, newLayer));
+      setCurrentLayerId(newLayer.id);
+      setCurrentPoseInstruction(INITIAL_POSE_INSTRUCTION);
+
+      const parentPoses = Object.keys(parent.poseImages).filter(pose => pose !== INITIAL_POSE_INSTRUCTION);
+      if (isCarryingPosesOver && parentPoses.length > 0) {
+        propagatePoses(newLayer.id, generated.imageUrl, parentPoses);
+      }
+    } catch (err: unknown) {
+      if (!isCancelledError(err)) {
+        setError(getFriendlyErrorMessage(err, 'Failed to apply the look'));
+      }
+    } finally {
+      endGeneration(signal);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [isLoading, outfitTree, currentLayerId, modelCreation.mode, isCarryingPosesOver, propagatePoses, generateAndChoose]);
   
+  // Every generated pose ends up in the library, so poses typed on the canvas
+  // can be picked again later.
+  const rememberGeneratedPose = useCallback(async (instruction: string, imageUrl: string) => {
+    try {
+      const pose = await rememberPose(poseLibrary, instruction, imageUrl);
+      if (!pose) return;
+      setPoseLibrary(prev => prev.some(existing => existing.id === pose.id)
+        ? prev.map(existing => existing.id === pose.id ? pose : existing)
+        : [...prev, pose]);
+    } catch (err) {
+      console.error('Failed to save pose to the library', err);
+    }
+  }, [poseLibrary]);
+
   const handlePoseSelect = useCallback(async (newPoseInstruction: string) => {
-    if (isLoading || outfitHistory.length === 0 || newPoseInstruction === currentPoseInstruction || !newPoseInstruction.trim()) return;
-    
-    const currentLayer = outfitHistory[currentOutfitIndex];
+    const currentLayer = currentLayerId ? outfitTree[currentLayerId] : undefined;
+    if (isLoading || !currentLayer || newPoseInstruction === currentPoseInstruction || !newPoseInstruction.trim()) return;
 
-    if (currentLayer.poseImages[newPoseInstruction]) {
+    // A pose still coming in from the background shows as soon as it arrives.
+    if (currentLayer.poseImages[newPoseInstruction] || backgroundPoses[currentLayer.id]?.includes(newPoseInstruction)) {
       setCurrentPoseInstruction(newPoseInstruction);
       return;
     }
@@ -162,23 +752,126 @@ const App: React.FC = () => {
     
     const prevPoseInstruction = currentPoseInstruction;
     setCurrentPoseInstruction(newPoseInstruction);
+    const signal = beginGeneration();
 
     try {
-      const newImageUrl = await generatePoseVariation(baseImageForPoseChange, newPoseInstruction);
-      setOutfitHistory(prevHistory => {
-        const newHistory = [...prevHistory];
-        const updatedLayer = newHistory[currentOutfitIndex];
-        updatedLayer.poseImages[newPoseInstruction] = newImageUrl;
-        return newHistory;
-      });
+      const generated = await generateAndChoose(
+        { kind: 'pose', baseImageUrl: baseImageForPoseChange, poseInstruction: newPoseInstruction },
+        `Pose: "${newPoseInstruction}"`,
+        signal,
+      );
+      if (!generated) {
+        setCurrentPoseInstruction(prevPoseInstruction);
+        return;
+      }
+      setOutfitTree(prevTree => updateLayer(prevTree, currentLayer.id, layer => setPoseImage(layer, newPoseInstruction, generated.imageUrl, generated.metadata)));
+      rememberGeneratedPose(newPoseInstruction, generated.imageUrl);
     } catch (err: unknown) {
-      setError(getFriendlyErrorMessage(err, 'Failed to change pose'));
+      if (!isCancelledError(err)) {
+        setError(getFriendlyErrorMessage(err, 'Failed to change pose'));
+      }
       setCurrentPoseInstruction(prevPoseInstruction);
     } finally {
+      endGeneration(signal);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [currentPoseInstruction, outfitTree, isLoading, currentLayerId, rememberGeneratedPose, backgroundPoses, generateAndChoose]);
+
+  /**
+   * Generates every pose of the sheet that the current layer doesn't have yet,
+   * one after another. Poses finished before a failure or cancel are kept.
+   */
+  const handleGeneratePoseSheet = useCallback(async () => {
+    const currentLayer = currentLayerId ? outfitTree[currentLayerId] : undefined;
+    if (isLoading || !currentLayer) return;
+    const pending = backgroundPoses[currentLayer.id] ?? [];
+    const missing = poseSheet.filter(instruction => !currentLayer.poseImages[instruction] && !pending.includes(instruction));
+    const baseImage = Object.values(currentLayer.poseImages)[0];
+    if (missing.length === 0 || !baseImage) return;
+
+    setError(null);
+    setIsLoading(true);
+    const signal = beginGeneration();
+
+    let generated = 0;
+    try {
+      for (const instruction of missing) {
+        setLoadingMessage(`Pose sheet: "${instruction}" (${generated + 1} of ${missing.length})...`);
+        const { imageUrl, metadata } = await generatePoseVariation(baseImage, instruction, signal);
+        setOutfitTree(prevTree => updateLayer(prevTree, currentLayer.id, layer => setPoseImage(layer, instruction, imageUrl, metadata)));
+        await rememberGeneratedPose(instruction, imageUrl);
+        generated++;
+      }
+    } catch (err: unknown) {
+      const skipped = missing.slice(generated).join(', ');
+      if (isCancelledError(err)) {
+        setError(`Pose sheet cancelled. Not generated: ${skipped}.`);
+      } else {
+        setError(`${getFriendlyErrorMessage(err, 'Failed to generate the pose sheet')} Not generated: ${skipped}.`);
+      }
+    } finally {
+      endGeneration(signal);
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [currentPoseInstruction, outfitHistory, isLoading, currentOutfitIndex]);
+  }, [currentLayerId, outfitTree, isLoading, poseSheet, rememberGeneratedPose, backgroundPoses]);
+
+  /** Places the current layer and pose in a new scene and shows the result. */
+  const handleGenerateScene = useCallback(async (label: string, description: string, backgroundImage?: File) => {
+    const currentLayer = currentLayerId ? outfitTree[currentLayerId] : undefined;
+    if (isLoading || !currentLayer || !displayImageUrl) return;
+
+    setError(null);
+    setIsLoading(true);
+    setLoadingMessage(`Placing the look in: ${label}...`);
+    const signal = beginGeneration();
+
+    try {
+      const { imageUrl, metadata } = await generateSceneVariation(displayImageUrl, { description, backgroundImage }, signal);
+      const scene: SceneVariant = {
+        id: `scene-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        label,
+        poseInstruction: currentPoseInstruction,
+        imageUrl,
+        metadata,
+        createdAt: Date.now(),
+      };
+      setOutfitTree(prevTree => updateLayer(prevTree, currentLayer.id, layer => ({
+        ...layer,
+        sceneVariants: [...(layer.sceneVariants ?? []), scene],
+      })));
+      setActiveSceneId(scene.id);
+    } catch (err: unknown) {
+      if (!isCancelledError(err)) {
+        setError(getFriendlyErrorMessage(err, 'Failed to change the scene'));
+      }
+    } finally {
+      endGeneration(signal);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [currentLayerId, outfitTree, isLoading, displayImageUrl, currentPoseInstruction]);
+
+  const handleToggleSheetPose = (instruction: string) => {
+    const next = poseSheet.includes(instruction)
+      ? poseSheet.filter(other => other !== instruction)
+      : [...poseSheet, instruction];
+    setPoseSheetState(next);
+    setPoseSheet(next);
+  };
+
+  const handleDeletePose = async (id: string) => {
+    const pose = poseLibrary.find(existing => existing.id === id);
+    if (!pose || pose.source !== 'custom') return;
+    setPoseLibrary(prev => prev.filter(existing => existing.id !== id));
+    if (poseSheet.includes(pose.instruction)) handleToggleSheetPose(pose.instruction);
+    try {
+      await deleteCustomPose(id);
+    } catch (err) {
+      console.error('Failed to delete pose', err);
+    }
+  };
 
   const viewVariants = {
     initial: { opacity: 0, y: 15 },
@@ -189,7 +882,18 @@ const App: React.FC = () => {
   return (
     <div className="font-sans">
       <AnimatePresence mode="wait">
-        {!modelImageUrl ? (
+        {isRestoring ? (
+          <motion.div
+            key="restoring"
+            className="w-screen min-h-screen flex items-center justify-center bg-gray-50"
+            variants={viewVariants}
+            initial="initial"
+            animate="animate"
+            exit="exit"
+          >
+            <Spinner />
+          </motion.div>
+        ) : !modelImageUrl ? (
           <motion.div
             key="start-screen"
             className="w-screen min-h-screen flex items-start sm:items-center justify-center bg-gray-50 p-4 pb-20"
@@ -199,7 +903,13 @@ const App: React.FC = () => {
             exit="exit"
             transition={{ duration: 0.5, ease: 'easeInOut' }}
           >
-            <StartScreen onModelFinalized={handleModelFinalized} />
+            <StartScreen
+              onModelFinalized={handleModelFinalized}
+              savedSessions={savedSessions}
+              onSessionSelect={handleSessionSelect}
+              onSessionDelete={handleSessionDelete}
+              onSessionRename={handleSessionRename}
+            />
           </motion.div>
         ) : (
           <motion.div
@@ -218,8 +928,14 @@ const App: React.FC = () => {
                   onStartOver={handleStartOver}
                   isLoading={isLoading}
                   loadingMessage={loadingMessage}
+                  onCancel={handleCancelGeneration}
+                  requestSignal={generationSignal}
                   onSelectPose={handlePoseSelect}
                   currentPoseInstruction={currentPoseInstruction}
+                  sceneVariants={currentSceneVariants}
+                  activeSceneId={activeSceneId}
+                  onSelectScene={setActiveSceneId}
+                  onInspect={() => setIsInspecting(true)}
                 />
               </div>
 
@@ -241,15 +957,79 @@ const App: React.FC = () => {
                         <p>{error}</p>
                       </div>
                     )}
+                    <ModelSwitcher
+                      models={savedSessions}
+                      currentModelId={sessionId}
+                      outfitSize={activeLayerGarments.length}
+                      isLoading={isLoading}
+                      onSwitch={(id) => handleSwitchModel(id)}
+                      onApplyOutfit={(id) => handleSwitchModel(id, activeLayerGarments)}
+                      onAddModel={handleStartOver}
+                    />
                     <OutfitStack 
                       outfitHistory={activeOutfitLayers}
-                      onRemoveLastGarment={handleRemoveLastGarment}
+                      pendingLayers={pendingLayers}
+                      isLoading={isLoading}
+                      swapTargetIndex={swapTargetIndex}
+                      onRemoveLayer={handleRemoveLayer}
+                      onMoveLayer={handleMoveLayer}
+                      onSwapLayer={handleSwapLayer}
+                      layerDrift={layerDrift}
+                      onRegenerateFromBase={handleRegenerateFromBase}
+                    />
+                    <PosePanel
+                      poses={poseLibrary}
+                      currentPoseInstruction={currentPoseInstruction}
+                      layerPoseImages={currentLayerId ? outfitTree[currentLayerId]?.poseImages ?? {} : {}}
+                      sheet={poseSheet}
+                      pendingPoses={currentLayerId ? backgroundPoses[currentLayerId] ?? [] : []}
+                      carryPosesOver={isCarryingPosesOver}
+                      onCarryPosesOverChange={handleCarryPosesOverChange}
+                      isLoading={isLoading}
+                      onPoseSelect={handlePoseSelect}
+                      onDeletePose={handleDeletePose}
+                      onToggleSheetPose={handleToggleSheetPose}
+                      onGenerateSheet={handleGeneratePoseSheet}
+                    />
+                    <ScenePanel
+                      isLoading={isLoading}
+                      onGenerateScene={handleGenerateScene}
+                    />
+                    <GenerationSettings
+                      candidateCount={candidateCount}
+                      onCandidateCountChange={handleCandidateCountChange}
+                      disabled={isLoading}
+                    />
+                    <OutfitHistoryBrowser
+                      outfitTree={outfitTree}
+                      currentLayerId={currentLayerId}
+                      initialPoseInstruction={INITIAL_POSE_INSTRUCTION}
+                      isLoading={isLoading}
+                      onSelectLayer={handleSelectLayer}
+                    />
+                    <BatchTryOn
+                      wardrobe={wardrobe}
+                      models={batchModels}
+                      activeGarmentIds={activeGarmentIds}
+                      currentModelId={sessionId}
+                      disabled={isLoading}
+                    />
+                    <LookbookExport
+                      layers={activeOutfitLayers}
+                      disabled={isLoading}
+                      onError={(err) => setError(getFriendlyErrorMessage(err, 'Failed to export the lookbook'))}
                     />
                     <WardrobePanel
                       onGarmentSelect={handleGarmentSelect}
+                      onApplyLook={handleApplyLook}
+                      swapTargetName={swapTargetIndex !== null && activeOutfitLayers[swapTargetIndex] ? describeLayer(activeOutfitLayers[swapTargetIndex]) : null}
+                      onCancelSwap={() => setSwapTargetIndex(null)}
                       activeGarmentIds={activeGarmentIds}
                       isLoading={isLoading}
                       wardrobe={wardrobe}
+                      onSaveItem={handleWardrobeItemSave}
+                      onDeleteItem={handleWardrobeItemDelete}
+                      outfitImageUrl={displayImageUrl}
                     />
                   </div>
               </aside>
@@ -266,9 +1046,27 @@ const App: React.FC = () => {
                   {loadingMessage && (
                     <p className="text-lg font-serif text-gray-700 mt-4 text-center px-4">{loadingMessage}</p>
                   )}
+                  <RequestQueueStatus signal={generationSignal} onCancel={handleCancelGeneration} />
                 </motion.div>
               )}
             </AnimatePresence>
+            <DebugModal
+              isOpen={isInspecting}
+              onClose={() => setIsInspecting(false)}
+              title={inspectedImage.title}
+              imageUrl={inspectedImage.imageUrl}
+              metadata={inspectedImage.metadata}
+            />
+            <AnimatePresence>
+              {candidateChoice && (
+                <CandidatePicker
+                  title={candidateChoice.title}
+                  imageUrls={candidateChoice.imageUrls}
+                  onChoose={candidateChoice.resolve}
+                  onDiscard={() => candidateChoice.resolve(null)}
+                />
+              )}
+            </AnimatePresence>
           </motion.div>
         )}
       </AnimatePresence>
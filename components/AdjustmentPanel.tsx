@@ -2,7 +2,41 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import type { ImageEdits } from '../lib/imageEditing';
+
+type Adjustment = 'brightness' | 'contrast' | 'saturation';
+
+const ADJUSTMENTS: { id: Adjustment; label: string }[] = [
+  { id: 'brightness', label: 'Brightness' },
+  { id: 'contrast', label: 'Contrast' },
+  { id: 'saturation', label: 'Saturation' },
+];
+
+interface AdjustmentPanelProps {
+  edits: ImageEdits;
+  onChange: (changes: Partial<Pick<ImageEdits, Adjustment>>) => void;
+}
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ edits, onChange }) => (
+  <div className="flex flex-col gap-2">
+    {ADJUSTMENTS.map(({ id, label }) => (
+      <label key={id} className="flex items-center gap-3 text-sm text-gray-700">
+        <span className="w-20">{label}</span>
+        <input
+          type="range"
+          min={-100}
+          max={100}
+          value={edits[id]}
+          onChange={(e) => onChange({ [id]: Number(e.target.value) })}
+          onDoubleClick={() => onChange({ [id]: 0 })}
+          className="flex-grow accent-gray-800"
+        />
+        <span className="w-10 text-right tabular-nums text-xs text-gray-500">{edits[id] > 0 ? `+${edits[id]}` : edits[id]}</span>
+      </label>
+    ))}
+    <p className="text-xs text-gray-400">Double-click a slider to reset it.</p>
+  </div>
+);
 
-// This component is not used in the current application flow.
-const AdjustmentPanel = () => null;
 export default AdjustmentPanel;
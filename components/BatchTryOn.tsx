@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import type { WardrobeItem } from '../types';
+import { BatchJob, BatchModel, createBatchTryOnRunner, getMaxBatchConcurrency } from '../services/batchTryOn';
+import Spinner from './Spinner';
+import { CheckCircleIcon, DownloadIcon, LayoutGridIcon, RepeatIcon, XIcon } from './icons';
+
+interface BatchTryOnProps {
+  wardrobe: WardrobeItem[];
+  models: BatchModel[];
+  /** Preselected when the batch view opens. */
+  activeGarmentIds: string[];
+  currentModelId: string | null;
+  disabled: boolean;
+}
+
+const MAX_BATCH_JOBS = 24;
+
+const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id];
+
+const SelectableThumbnail: React.FC<{ imageUrl: string; label: string; selected: boolean; onClick: () => void; tall?: boolean }> = ({ imageUrl, label, selected, onClick, tall }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={selected}
+    className={`relative flex-shrink-0 w-20 flex flex-col items-center gap-1 rounded-md p-1 transition-colors ${selected ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+  >
+    <img src={imageUrl} alt="" className={`w-full ${tall ? 'h-28' : 'aspect-square'} object-cover rounded-md border ${selected ? 'border-gray-800' : 'border-gray-200'}`} />
+    {selected && <CheckCircleIcon className="absolute top-2 right-2 w-5 h-5 text-white drop-shadow" />}
+    <span className="w-full text-xs text-gray-700 truncate" title={label}>{label}</span>
+  </button>
+);
+
+const ResultCell: React.FC<{ job: BatchJob; onRetry: () => void }> = ({ job, onRetry }) => {
+  if (job.status === 'done' && job.resultUrl) {
+    return (
+      <div className="relative group w-full h-full">
+        <img src={job.resultUrl} alt={`${job.garment.name} on ${job.model.name}`} className="w-full h-full object-cover rounded-md" />
+        <a
+          href={job.resultUrl}
+          download={`${job.garment.name}-${job.model.name}.png`}
+          className="absolute bottom-1 right-1 p-1.5 rounded-full bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          aria-label={`Download ${job.garment.name} on ${job.model.name}`}
+        >
+          <DownloadIcon className="w-4 h-4" />
+        </a>
+      </div>
+    );
+  }
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-2 rounded-md bg-gray-50 border border-dashed border-gray-300 p-2 text-center">
+      {job.status === 'running' && <><Spinner /><span className="text-xs text-gray-600">Generating{job.attempts > 1 ? ` (try ${job.attempts})` : ''}</span></>}
+      {job.status === 'queued' && <span className="text-xs text-gray-400">Waiting</span>}
+      {(job.status === 'failed' || job.status === 'cancelled') && (
+        <>
+          <span className={`text-xs ${job.status === 'failed' ? 'text-red-600' : 'text-gray-500'} line-clamp-3`} title={job.error ?? undefined}>
+            {job.status === 'failed' ? job.error : 'Cancelled'}
+          </span>
+          <button onClick={onRetry} className="flex items-center gap-1 text-xs font-semibold text-gray-700 hover:underline">
+            <RepeatIcon className="w-3.5 h-3.5" />
+            Retry
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Tries N garments on M models in one go and shows the results as a grid,
+// garments down and models across.
+const BatchTryOn: React.FC<BatchTryOnProps> = ({ wardrobe, models, activeGarmentIds, currentModelId, disabled }) => {
+  const runner = useMemo(() => createBatchTryOnRunner(), []);
+  const jobs = useSyncExternalStore(runner.subscribe, runner.getSnapshot);
+  const [isOpen, setIsOpen] = useState(false);
+  const [garmentIds, setGarmentIds] = useState<string[]>([]);
+  const [modelIds, setModelIds] = useState<string[]>([]);
+  const [view, setView] = useState<'setup' | 'results'>('setup');
+  const [concurrency, setConcurrency] = useState(1);
+  const maxConcurrency = getMaxBatchConcurrency();
+
+  // Nothing keeps running once the runner's owner is gone.
+  useEffect(() => () => runner.cancel(), [runner]);
+
+  const open = () => {
+    if (jobs.length === 0) {
+      setGarmentIds(activeGarmentIds);
+      setModelIds(currentModelId ? [currentModelId] : []);
+    }
+    setIsOpen(true);
+  };
+
+  const jobCount = garmentIds.length * modelIds.length;
+  const isRunning = jobs.some(job => job.status === 'queued' || job.status === 'running');
+  const failedCount = jobs.filter(job => job.status === 'failed').length;
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+
+  const handleConcurrencyChange = (next: number) => {
+    setConcurrency(next);
+    runner.setConcurrency(next);
+  };
+
+  const handleStart = () => {
+    runner.start(
+      wardrobe.filter(item => garmentIds.includes(item.id)),
+      models.filter(model => modelIds.includes(model.id)),
+    );
+    setView('results');
+  };
+
+  // Rows and columns in the order the batch was started with.
+  const batchGarments = jobs.filter((job, i) => jobs.findIndex(other => other.garment.id === job.garment.id) === i).map(job => job.garment);
+  const batchModels = jobs.filter((job, i) => jobs.findIndex(other => other.model.id === job.model.id) === i).map(job => job.model);
+  const jobFor = (garmentId: string, modelId: string) => jobs.find(job => job.garment.id === garmentId && job.model.id === modelId);
+
+  return (
+    <div className="flex flex-col">
+      <h2 className="text-xl font-serif tracking-wider text-gray-800 border-b border-gray-400/50 pb-2 mb-3">Batch Try-On</h2>
+      <button
+        onClick={open}
+        disabled={disabled && !isRunning}
+        className="flex items-center justify-center gap-2 text-sm font-semibold text-gray-700 bg-white/70 border border-gray-300 rounded-full px-3 py-2 hover:bg-white hover:border-gray-400 active:scale-95 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <LayoutGridIcon className="w-4 h-4" />
+        {isRunning ? `Batch running (${doneCount} of ${jobs.length})` : 'Try garments on models'}
+      </button>
+      <p className="text-xs text-gray-500 mt-2">Compare several garments, several models, or both, side by side.</p>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="relative bg-white rounded-2xl shadow-xl p-4 sm:p-6 flex flex-col gap-4 w-full max-w-4xl max-h-full overflow-hidden"
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              role="dialog"
+              aria-label="Batch try-on"
+            >
+              <button
+                onClick={() => setIsOpen(false)}
+                className="absolute top-3 right-3 text-gray-500 hover:text-gray-800 p-1.5 rounded-md hover:bg-gray-100 transition-colors"
+                aria-label="Close batch try-on"
+              >
+                <XIcon className="w-5 h-5" />
+              </button>
+              <h2 className="text-xl font-serif tracking-wider text-gray-800">Batch Try-On</h2>
+
+              {view === 'setup' ? (
+                <>
+                  <div className="overflow-y-auto flex flex-col gap-4">
+                    <section>
+                      <h3 className="text-sm font-semibold text-gray-700 mb-2">Garments ({garmentIds.length})</h3>
+                      <div className="flex gap-2 overflow-x-auto pb-1">
+                        {wardrobe.map(item => (
+                          <SelectableThumbnail
+                            key={item.id}
+                            imageUrl={item.url}
+                            label={item.name}
+                            selected={garmentIds.includes(item.id)}
+                            onClick={() => setGarmentIds(prev => toggle(prev, item.id))}
+                          />
+                        ))}
+                      </div>
+                    </section>
+                    <section>
+                      <h3 className="text-sm font-semibold text-gray-700 mb-2">Models ({modelIds.length})</h3>
+                      {models.length === 0 ? (
+                        <p className="text-sm text-gray-500">No saved models yet.</p>
+                      ) : (
+                        <div className="flex gap-2 overflow-x-auto pb-1">
+                          {models.map(model => (
+                            <SelectableThumbnail
+                              key={model.id}
+                              imageUrl={model.imageUrl}
+                              label={model.name}
+                              selected={modelIds.includes(model.id)}
+                              onClick={() => setModelIds(prev => toggle(prev, model.id))}
+                              tall
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </section>
+                  </div>
+                  <div className="flex items-center justify-end gap-3">
+                    <p className={`mr-auto text-sm ${jobCount > MAX_BATCH_JOBS ? 'text-red-600' : 'text-gray-600'}`}>
+                      {jobCount > MAX_BATCH_JOBS
+                        ? `${jobCount} try-ons selected; the limit is ${MAX_BATCH_JOBS}.`
+                        : `${jobCount} ${jobCount === 1 ? 'try-on' : 'try-ons'}`}
+                    </p>
+                    <label className="flex items-center gap-2 text-sm text-gray-600" title={maxConcurrency === 1 ? 'Generations run one at a time.' : undefined}>
+                      At once
+                      <select
+                        value={concurrency}
+                        onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                        disabled={maxConcurrency === 1}
+                        className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white disabled:opacity-50"
+                      >
+                        {Array.from({ length: maxConcurrency }, (_, i) => i + 1).map(count => (
+                          <option key={count} value={count}>{count}</option>
+                        ))}
+                      </select>
+                    </label>
+                    {jobs.length > 0 && (
+                      <button onClick={() => setView('results')} className="text-sm font-semibold text-gray-600 hover:underline px-2">
+                        Back to results
+                      </button>
+                    )}
+                    <button
+                      onClick={handleStart}
+                      disabled={jobCount === 0 || jobCount > MAX_BATCH_JOBS}
+                      className="text-sm font-semibold bg-gray-800 text-white rounded-md px-4 py-2 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isRunning ? 'Restart Batch' : 'Start Batch'}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="overflow-auto">
+                    <table className="border-separate border-spacing-2">
+                      <thead>
+                        <tr>
+                          <th />
+                          {batchModels.map(model => (
+                            <th key={model.id} className="w-32 text-xs font-semibold text-gray-700 truncate max-w-[8rem]" title={model.name}>{model.name}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {batchGarments.map(garment => (
+                          <tr key={garment.id}>
+                            <th className="w-24 align-middle">
+                              <img src={garment.url} alt="" className="w-16 h-16 object-cover rounded-md mx-auto" />
+                              <span className="block text-xs font-semibold text-gray-700 truncate max-w-[6rem]" title={garment.name}>{garment.name}</span>
+                            </th>
+                            {batchModels.map(model => {
+                              const job = jobFor(garment.id, model.id);
+                              return (
+                                <td key={model.id} className="w-32 h-48 p-0 align-top">
+                                  {job && <ResultCell job={job} onRetry={() => runner.retry(job.id)} />}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="flex items-center justify-end gap-3">
+                    <p className="mr-auto text-sm text-gray-600">
+                      {doneCount} of {jobs.length} done{failedCount > 0 && `, ${failedCount} failed`}
+                    </p>
+                    <button onClick={() => setView('setup')} className="text-sm font-semibold text-gray-600 hover:underline px-2">
+                      Change selection
+                    </button>
+                    {failedCount > 0 && !isRunning && (
+                      <button onClick={runner.retryFailed} className="text-sm font-semibold text-gray-700 bg-gray-200 rounded-md px-4 py-2 hover:bg-gray-300 transition-colors">
+                        Retry Failed
+                      </button>
+                    )}
+                    {isRunning && (
+                      <button onClick={runner.cancel} className="text-sm font-semibold bg-gray-800 text-white rounded-md px-4 py-2 hover:bg-gray-600 transition-colors">
+                        Cancel Batch
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default BatchTryOn;
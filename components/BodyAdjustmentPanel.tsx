@@ -2,32 +2,89 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import type { BodyAdjustment } from '../types';
+import { BODY_ATTRIBUTES, MAX_BODY_STEP, bodyAdjustmentsEqual, isNeutralBodyAdjustment } from '../lib/bodyAdjustments';
+import { RotateCcwIcon } from './icons';
 
 interface BodyAdjustmentPanelProps {
-  onAdjustBody: (direction: 'more' | 'less') => void;
+  /** The adjustment the current model image was generated with. */
+  applied: BodyAdjustment;
+  onApply: (adjustment: BodyAdjustment) => void;
+  onUndo: () => void;
+  canUndo: boolean;
   isLoading: boolean;
 }
 
-const BodyAdjustmentPanel: React.FC<BodyAdjustmentPanelProps> = ({ onAdjustBody, isLoading }) => {
+const formatStep = (step: number) => step > 0 ? `+${step}` : `${step}`;
+
+// Sliders are edited as a draft and sent together, so one generation covers
+// every attribute that changed.
+const BodyAdjustmentPanel: React.FC<BodyAdjustmentPanelProps> = ({ applied, onApply, onUndo, canUndo, isLoading }) => {
+  const [draft, setDraft] = useState<BodyAdjustment>(applied);
+
+  useEffect(() => {
+    setDraft(applied);
+  }, [applied]);
+
+  const isDirty = !bodyAdjustmentsEqual(draft, applied);
+
   return (
     <div>
-      <h2 className="text-xl font-serif tracking-wider text-gray-800 mb-3">Physique Adjustment</h2>
-      <p className="text-sm text-gray-600 mb-3">Fine-tune the abdominal muscle definition.</p>
-      <div className="flex items-center gap-3">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-serif tracking-wider text-gray-800">Physique Adjustment</h2>
+        <button
+          onClick={onUndo}
+          disabled={isLoading || !canUndo}
+          className="flex items-center gap-1 text-sm font-semibold text-gray-600 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed"
+          aria-label="Undo last adjustment"
+        >
+          <RotateCcwIcon className="w-4 h-4" />
+          Undo
+        </button>
+      </div>
+      <div className="space-y-3">
+        {BODY_ATTRIBUTES.map(({ id, label, lower, higher }) => {
+          const step = draft[id] ?? 0;
+          return (
+            <div key={id}>
+              <div className="flex items-center justify-between text-sm">
+                <label htmlFor={`body-${id}`} className="font-semibold text-gray-700">{label}</label>
+                <span className={`tabular-nums text-xs ${step === 0 ? 'text-gray-400' : 'text-gray-800 font-semibold'}`}>{formatStep(step)}</span>
+              </div>
+              <input
+                id={`body-${id}`}
+                type="range"
+                min={-MAX_BODY_STEP}
+                max={MAX_BODY_STEP}
+                step={1}
+                value={step}
+                onChange={(e) => setDraft(prev => ({ ...prev, [id]: Number(e.target.value) }))}
+                disabled={isLoading}
+                className="w-full accent-gray-800"
+              />
+              <div className="flex justify-between text-xs text-gray-500 capitalize">
+                <span>{lower}</span>
+                <span>{higher}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-3 mt-4">
         <button
-            onClick={() => onAdjustBody('less')}
-            disabled={isLoading}
-            className="w-1/2 text-center bg-gray-800 text-white font-semibold py-2.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-gray-600 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={() => setDraft({})}
+          disabled={isLoading || isNeutralBodyAdjustment(draft)}
+          className="w-1/3 text-center bg-gray-200 text-gray-700 font-semibold py-2.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-gray-300 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
         >
-            Less Sixpack
+          Reset
         </button>
         <button
-            onClick={() => onAdjustBody('more')}
-            disabled={isLoading}
-            className="w-1/2 text-center bg-gray-800 text-white font-semibold py-2.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-gray-600 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={() => onApply(draft)}
+          disabled={isLoading || !isDirty}
+          className="w-2/3 text-center bg-gray-800 text-white font-semibold py-2.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-gray-600 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
         >
-            More Sixpack
+          Apply Adjustments
         </button>
       </div>
     </div>
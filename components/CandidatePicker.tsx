@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircleIcon, XIcon } from './icons';
+
+interface CandidatePickerProps {
+  title: string;
+  imageUrls: string[];
+  onChoose: (imageUrl: string) => void;
+  onDiscard: () => void;
+}
+
+// Shows the results of one generation side by side so the user can keep the best.
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ title, imageUrls, onChoose, onDiscard }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onDiscard();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onDiscard]);
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        className="relative bg-white rounded-2xl shadow-xl p-4 sm:p-6 flex flex-col gap-4 w-full max-w-4xl max-h-full overflow-hidden"
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        role="dialog"
+        aria-label={title}
+      >
+        <button
+          onClick={onDiscard}
+          className="absolute top-3 right-3 text-gray-500 hover:text-gray-800 p-1.5 rounded-md hover:bg-gray-100 transition-colors"
+          aria-label="Discard all results"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+        <div>
+          <h2 className="text-xl font-serif tracking-wider text-gray-800">{title}</h2>
+          <p className="text-sm text-gray-600 mt-1">Pick the result you like best.</p>
+        </div>
+        <div className={`grid gap-3 overflow-y-auto ${imageUrls.length > 2 ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-2'}`}>
+          {imageUrls.map((imageUrl, i) => (
+            <button
+              key={i}
+              onClick={() => setSelectedIndex(i)}
+              onDoubleClick={() => onChoose(imageUrl)}
+              aria-pressed={i === selectedIndex}
+              className={`relative rounded-lg overflow-hidden border-2 transition-colors ${i === selectedIndex ? 'border-gray-800' : 'border-transparent hover:border-gray-300'}`}
+            >
+              <img src={imageUrl} alt={`Result ${i + 1}`} className="w-full aspect-[2/3] object-cover bg-gray-100" />
+              {i === selectedIndex && <CheckCircleIcon className="absolute top-2 right-2 w-6 h-6 text-white drop-shadow" />}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center justify-end gap-3">
+          <button onClick={onDiscard} className="text-sm font-semibold text-gray-600 hover:underline px-2">
+            Discard
+          </button>
+          <button
+            onClick={() => onChoose(imageUrls[selectedIndex])}
+            className="text-sm font-semibold bg-gray-800 text-white rounded-md px-4 py-2 hover:bg-gray-600 transition-colors"
+          >
+            Use this result
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CandidatePicker;
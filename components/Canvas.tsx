@@ -3,8 +3,10 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState } from 'react';
-import { RotateCcwIcon } from './icons';
+import type { SceneVariant } from '../types';
+import { InfoIcon, RotateCcwIcon } from './icons';
 import Spinner from './Spinner';
+import RequestQueueStatus from './RequestQueueStatus';
 import { AnimatePresence, motion } from 'framer-motion';
 
 interface CanvasProps {
@@ -12,12 +14,23 @@ interface CanvasProps {
   onStartOver: () => void;
   isLoading: boolean;
   loadingMessage: string;
+  onCancel: () => void;
+  /** The signal of the generation in progress, for its place in the request queue. */
+  requestSignal: AbortSignal | null;
   onSelectPose: (instruction: string) => void;
   currentPoseInstruction: string;
+  /** Scene variants of the pose on screen. */
+  sceneVariants: SceneVariant[];
+  activeSceneId: string | null;
+  onSelectScene: (id: string | null) => void;
+  /** Opens the details of the image on screen. */
+  onInspect: () => void;
 }
 
-const Canvas: React.FC<CanvasProps> = ({ displayImageUrl, onStartOver, isLoading, loadingMessage, onSelectPose, currentPoseInstruction }) => {
+const Canvas: React.FC<CanvasProps> = ({ displayImageUrl, onStartOver, isLoading, loadingMessage, onCancel, requestSignal, onSelectPose, currentPoseInstruction, sceneVariants, activeSceneId, onSelectScene, onInspect }) => {
   const [poseInput, setPoseInput] = useState('');
+  const activeScene = sceneVariants.find(scene => scene.id === activeSceneId);
+  const shownImageUrl = activeScene?.imageUrl ?? displayImageUrl;
 
   const handlePoseGeneration = (e: React.FormEvent) => {
     e.preventDefault();
@@ -38,12 +51,23 @@ const Canvas: React.FC<CanvasProps> = ({ displayImageUrl, onStartOver, isLoading
           Start Over
       </button>
 
+      {shownImageUrl && (
+        <button
+          onClick={onInspect}
+          className="absolute top-16 left-4 z-30 p-2 rounded-full bg-white/60 border border-gray-300/80 text-gray-700 transition-all duration-200 ease-in-out hover:bg-white hover:border-gray-400 active:scale-95 backdrop-blur-sm"
+          aria-label="Image details"
+          title="Image details"
+        >
+          <InfoIcon className="w-4 h-4" />
+        </button>
+      )}
+
       {/* Image Display or Placeholder */}
       <div className="relative w-full h-full flex items-center justify-center">
-        {displayImageUrl ? (
+        {shownImageUrl ? (
           <img
-            key={displayImageUrl} // Use key to force re-render and trigger animation on image change
-            src={displayImageUrl}
+            key={shownImageUrl} // Use key to force re-render and trigger animation on image change
+            src={shownImageUrl}
             alt="Virtual try-on model"
             className="max-w-full max-h-full object-contain transition-opacity duration-500 animate-fade-in rounded-lg"
           />
@@ -66,11 +90,31 @@ const Canvas: React.FC<CanvasProps> = ({ displayImageUrl, onStartOver, isLoading
                   {loadingMessage && (
                       <p className="text-lg font-serif text-gray-700 mt-4 text-center px-4">{loadingMessage}</p>
                   )}
+                  <RequestQueueStatus signal={requestSignal} onCancel={onCancel} />
               </motion.div>
           )}
         </AnimatePresence>
       </div>
 
+      {/* Scene Variants */}
+      {displayImageUrl && sceneVariants.length > 0 && (
+        <div className="absolute top-4 right-4 z-30 flex flex-col gap-2 bg-white/60 backdrop-blur-sm border border-gray-300/80 rounded-lg p-1.5 max-h-[calc(100%-8rem)] overflow-y-auto">
+          {[{ id: null, label: 'Original', imageUrl: displayImageUrl }, ...sceneVariants].map(scene => (
+            <button
+              key={scene.id ?? 'original'}
+              onClick={() => onSelectScene(scene.id)}
+              disabled={isLoading}
+              className={`w-14 flex flex-col items-center gap-0.5 rounded-md p-0.5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${scene.id === (activeScene?.id ?? null) ? 'bg-gray-800 text-white' : 'text-gray-700 hover:bg-white'}`}
+              title={scene.label}
+              aria-pressed={scene.id === (activeScene?.id ?? null)}
+            >
+              <img src={scene.imageUrl} alt="" className="w-full aspect-[2/3] object-cover rounded" />
+              <span className="w-full text-[10px] font-semibold truncate">{scene.label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Custom Pose Controls */}
       {displayImageUrl && (
         <div 
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import type { ColorSwatch, WardrobeItem } from '../types';
+import { COLORWAY_PALETTES, extractPalette, nameForHex } from '../lib/colors';
+import { createColorwayItem } from '../services/wardrobeService';
+import { recolorGarment } from '../services/geminiService';
+import { isCancelledError } from '../services/retry';
+import { getFriendlyErrorMessage, urlToFile } from '../lib/utils';
+import RequestQueueStatus from './RequestQueueStatus';
+import { CheckCircleIcon } from './icons';
+
+interface ColorwayGeneratorProps {
+  item: WardrobeItem;
+  /** Current outfit image, for "Match outfit"; null hides that option. */
+  outfitImageUrl: string | null;
+  variants: WardrobeItem[];
+  disabled: boolean;
+  onCreate: (variant: WardrobeItem) => void;
+  onTryOn: (variant: WardrobeItem) => void;
+  onClose: () => void;
+}
+
+const MAX_COLORS = 6;
+
+const SwatchButton: React.FC<{ color: ColorSwatch; selected: boolean; onClick: () => void }> = ({ color, selected, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`relative w-7 h-7 rounded-full border transition-transform hover:scale-110 ${selected ? 'ring-2 ring-offset-1 ring-gray-800 border-transparent' : 'border-gray-300'}`}
+    style={{ backgroundColor: color.hex }}
+    title={color.name}
+    aria-label={color.name}
+    aria-pressed={selected}
+  />
+);
+
+// Generates recolored variants of a wardrobe item. Each variant is saved as
+// its own wardrobe item linked to the original, so trying one on goes through
+// the normal garment flow.
+const ColorwayGenerator: React.FC<ColorwayGeneratorProps> = ({ item, outfitImageUrl, variants, disabled, onCreate, onTryOn, onClose }) => {
+  const [selected, setSelected] = useState<ColorSwatch[]>([]);
+  const [pickerHex, setPickerHex] = useState('#1f2a44');
+  const [outfitColors, setOutfitColors] = useState<ColorSwatch[] | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const [requestSignal, setRequestSignal] = useState<AbortSignal | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const isSelected = (color: ColorSwatch) => selected.some(c => c.hex === color.hex);
+
+  const toggle = (color: ColorSwatch) => {
+    setSelected(prev => isSelected(color)
+      ? prev.filter(c => c.hex !== color.hex)
+      : [...prev, color].slice(-MAX_COLORS));
+  };
+
+  const handleMatchOutfit = async () => {
+    if (!outfitImageUrl) return;
+    setError(null);
+    try {
+      setOutfitColors(await extractPalette(outfitImageUrl));
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'Could not read the outfit colors'));
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (selected.length === 0) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRequestSignal(controller.signal);
+    setError(null);
+    const failed: string[] = [];
+    try {
+      const garmentFile = await urlToFile(item.url, item.name);
+      for (const [i, color] of selected.entries()) {
+        setProgress(`Creating ${color.name} (${i + 1} of ${selected.length})...`);
+        try {
+          const { imageUrl } = await recolorGarment(garmentFile, color, controller.signal);
+          onCreate(createColorwayItem(item, color, imageUrl));
+        } catch (err) {
+          if (isCancelledError(err)) throw err;
+          console.error(`Failed to create the ${color.name} colorway`, err);
+          failed.push(color.name);
+        }
+      }
+      setSelected([]);
+      if (failed.length > 0) {
+        setError(`Could not create: ${failed.join(', ')}. Please try again.`);
+      }
+    } catch (err) {
+      if (!isCancelledError(err)) {
+        setError(getFriendlyErrorMessage(err, 'Failed to create colorways'));
+      }
+    } finally {
+      controllerRef.current = null;
+      setRequestSignal(null);
+      setProgress(null);
+    }
+  };
+
+  const isGenerating = progress !== null;
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 mb-4 animate-fade-in">
+      <div className="flex items-center gap-3 mb-3">
+        <img src={item.url} alt={item.name} className="flex-shrink-0 w-14 h-14 object-cover rounded-md border" />
+        <div className="overflow-hidden">
+          <p className="text-sm font-semibold text-gray-800">Colorways</p>
+          <p className="text-xs text-gray-500 truncate">{item.name}</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {COLORWAY_PALETTES.map(palette => (
+          <div key={palette.name} className="flex items-center gap-2">
+            <span className="w-20 flex-shrink-0 text-xs text-gray-500">{palette.name}</span>
+            <div className="flex flex-wrap gap-1.5">
+              {palette.colors.map(color => (
+                <SwatchButton key={color.hex} color={color} selected={isSelected(color)} onClick={() => toggle(color)} />
+              ))}
+            </div>
+          </div>
+        ))}
+        {outfitColors && (
+          <div className="flex items-center gap-2">
+            <span className="w-20 flex-shrink-0 text-xs text-gray-500">This outfit</span>
+            <div className="flex flex-wrap gap-1.5">
+              {outfitColors.map(color => (
+                <SwatchButton key={color.hex} color={color} selected={isSelected(color)} onClick={() => toggle(color)} />
+              ))}
+            </div>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <span className="w-20 flex-shrink-0 text-xs text-gray-500">Custom</span>
+          <input
+            type="color"
+            value={pickerHex}
+            onChange={(e) => setPickerHex(e.target.value)}
+            className="w-7 h-7 rounded cursor-pointer border border-gray-300 bg-white"
+            aria-label="Pick a color"
+          />
+          <button
+            type="button"
+            onClick={() => toggle({ name: nameForHex(pickerHex), hex: pickerHex })}
+            className="text-xs font-semibold text-gray-700 hover:underline"
+          >
+            Add {nameForHex(pickerHex)}
+          </button>
+          {outfitImageUrl && !outfitColors && (
+            <button type="button" onClick={handleMatchOutfit} className="ml-auto text-xs font-semibold text-gray-700 hover:underline">
+              Match outfit
+            </button>
+          )}
+        </div>
+      </div>
+
+      {selected.length > 0 && (
+        <p className="text-xs text-gray-600 mt-3">
+          Selected: {selected.map(c => c.name).join(', ')}
+        </p>
+      )}
+
+      {isGenerating && (
+        <div className="mt-3 text-center">
+          <p className="text-sm font-serif text-gray-700">{progress}</p>
+          <RequestQueueStatus signal={requestSignal} onCancel={() => controllerRef.current?.abort()} />
+        </div>
+      )}
+
+      {variants.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1.5">Variants</p>
+          <div className="grid grid-cols-4 gap-2">
+            {variants.map(variant => (
+              <button
+                key={variant.id}
+                type="button"
+                onClick={() => onTryOn(variant)}
+                disabled={disabled || isGenerating}
+                className="relative aspect-square rounded-md overflow-hidden border group disabled:opacity-60 disabled:cursor-not-allowed"
+                title={`Try on ${variant.name}`}
+              >
+                <img src={variant.url} alt={variant.name} className="w-full h-full object-cover" />
+                <span className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <CheckCircleIcon className="w-5 h-5 text-white" />
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2 mt-3">
+        <button type="button" onClick={onClose} disabled={isGenerating} className="text-sm font-semibold text-gray-600 hover:underline px-2 disabled:opacity-50">
+          Done
+        </button>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={disabled || isGenerating || selected.length === 0}
+          className="text-sm font-semibold bg-gray-800 text-white rounded-md px-3 py-1.5 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Create {selected.length > 0 ? selected.length : ''} {selected.length === 1 ? 'Colorway' : 'Colorways'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColorwayGenerator;
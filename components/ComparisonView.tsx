@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Compare } from './ui/compare';
+import { XIcon } from './icons';
+
+export const MAX_COMPARED_ITEMS = 4;
+
+export interface ComparedItem {
+  id: string;
+  label: string;
+  imageUrl: string;
+}
+
+interface ComparisonViewProps {
+  items: ComparedItem[];
+  onClose: () => void;
+}
+
+type ComparisonMode = 'slider' | 'grid';
+
+interface GridFocus {
+  zoom: number;
+  originX: number;
+  originY: number;
+}
+
+// Full-screen comparison of two to four outfit images. Two images can be
+// compared with the drag slider; any number can be shown as a grid whose cells
+// zoom and pan together, so the same detail is visible in every outfit.
+const ComparisonView: React.FC<ComparisonViewProps> = ({ items, onClose }) => {
+  const [mode, setMode] = useState<ComparisonMode>(items.length === 2 ? 'slider' : 'grid');
+  const [focus, setFocus] = useState<GridFocus>({ zoom: 1, originX: 50, originY: 50 });
+  const activeMode = items.length === 2 ? mode : 'grid';
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (focus.zoom === 1) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFocus(prev => ({
+      ...prev,
+      originX: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      originY: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    }));
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="relative bg-white rounded-2xl shadow-xl p-4 sm:p-6 flex flex-col items-center max-w-full max-h-full overflow-y-auto"
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Compare outfits"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-500 hover:text-gray-800 p-1.5 rounded-md hover:bg-gray-100 transition-colors"
+          aria-label="Close comparison"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-xl font-serif tracking-wider text-gray-800 mb-3">Compare Outfits</h2>
+        <div className="flex items-center gap-3 mb-3">
+          {items.length === 2 && (
+            <div className="flex rounded-full border border-gray-300 p-0.5 text-sm font-semibold">
+              {(['slider', 'grid'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`px-3 py-1 rounded-full capitalize transition-colors ${activeMode === option ? 'bg-gray-900 text-white' : 'text-gray-600 hover:text-gray-900'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          )}
+          {activeMode === 'grid' && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Zoom
+              <input
+                type="range"
+                min={1}
+                max={3}
+                step={0.25}
+                value={focus.zoom}
+                onChange={(e) => setFocus(prev => ({ ...prev, zoom: Number(e.target.value) }))}
+                className="accent-gray-800"
+              />
+              <span className="w-8 text-right tabular-nums">{focus.zoom}x</span>
+            </label>
+          )}
+        </div>
+        {activeMode === 'slider' ? (
+          <>
+            <div className="flex w-full justify-between gap-4 mb-2 text-xs font-semibold text-gray-600">
+              <span className="truncate max-w-[45%]" title={items[0].label}>{items[0].label}</span>
+              <span className="truncate max-w-[45%] text-right" title={items[1].label}>{items[1].label}</span>
+            </div>
+            <Compare
+              firstImage={items[0].imageUrl}
+              secondImage={items[1].imageUrl}
+              slideMode="drag"
+              className="w-[280px] h-[420px] sm:w-[360px] sm:h-[540px] rounded-xl bg-gray-200"
+            />
+          </>
+        ) : (
+          <div className={`grid grid-cols-2 gap-3 ${items.length === 3 ? 'sm:grid-cols-3' : items.length === 4 ? 'sm:grid-cols-4' : ''}`}>
+            {items.map(item => (
+              <figure key={item.id} className="flex flex-col items-center">
+                <div
+                  className={`w-[140px] h-[210px] sm:w-[200px] sm:h-[300px] rounded-xl bg-gray-200 overflow-hidden ${focus.zoom > 1 ? 'cursor-crosshair' : ''}`}
+                  onPointerMove={handlePointerMove}
+                >
+                  <img
+                    src={item.imageUrl}
+                    alt={item.label}
+                    draggable={false}
+                    className="w-full h-full object-cover transition-transform duration-75"
+                    style={{ transform: `scale(${focus.zoom})`, transformOrigin: `${focus.originX}% ${focus.originY}%` }}
+                  />
+                </div>
+                <figcaption className="mt-1.5 text-xs font-semibold text-gray-600 truncate max-w-[140px] sm:max-w-[200px]" title={item.label}>
+                  {item.label}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ComparisonView;
@@ -2,7 +2,51 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import { ASPECT_PRESETS, AspectPresetId } from '../lib/imageEditing';
+import { FlipHorizontalIcon, RotateCcwIcon, RotateCwIcon } from './icons';
+
+interface CropPanelProps {
+  aspect: AspectPresetId;
+  onAspectChange: (aspect: AspectPresetId) => void;
+  onRotate: (direction: 'left' | 'right') => void;
+  onFlip: () => void;
+  onResetCrop: () => void;
+}
+
+const iconButtonClassName = "p-2 rounded-md text-gray-700 border border-gray-300 bg-white hover:border-gray-400 transition-colors";
+
+const CropPanel: React.FC<CropPanelProps> = ({ aspect, onAspectChange, onRotate, onFlip, onResetCrop }) => (
+  <div className="flex flex-col gap-3">
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="text-xs text-gray-500 w-14">Aspect</span>
+      {ASPECT_PRESETS.map(preset => (
+        <button
+          key={preset.id}
+          type="button"
+          onClick={() => onAspectChange(preset.id)}
+          className={`text-xs font-semibold rounded-full px-3 py-1 border transition-colors ${aspect === preset.id ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-600 border-gray-300 hover:border-gray-400'}`}
+        >
+          {preset.label}
+        </button>
+      ))}
+    </div>
+    <div className="flex items-center gap-1.5">
+      <span className="text-xs text-gray-500 w-14">Rotate</span>
+      <button type="button" onClick={() => onRotate('left')} className={iconButtonClassName} aria-label="Rotate left">
+        <RotateCcwIcon className="w-4 h-4" />
+      </button>
+      <button type="button" onClick={() => onRotate('right')} className={iconButtonClassName} aria-label="Rotate right">
+        <RotateCwIcon className="w-4 h-4" />
+      </button>
+      <button type="button" onClick={onFlip} className={iconButtonClassName} aria-label="Flip horizontally">
+        <FlipHorizontalIcon className="w-4 h-4" />
+      </button>
+      <button type="button" onClick={onResetCrop} className="ml-auto text-xs font-semibold text-gray-600 hover:underline">
+        Reset crop
+      </button>
+    </div>
+  </div>
+);
 
-// This component is not used in the current application flow.
-const CropPanel = () => null;
 export default CropPanel;
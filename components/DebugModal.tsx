@@ -2,3 +2,115 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import type { GenerationMetadata } from '../types';
+import { XIcon } from './icons';
+
+interface DebugModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** What the image shows, e.g. the pose instruction or scene label. */
+  title: string;
+  imageUrl: string | null;
+  metadata: GenerationMetadata | undefined;
+}
+
+const formatLatency = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-3 text-sm">
+    <dt className="w-28 flex-shrink-0 text-gray-500">{label}</dt>
+    <dd className="min-w-0 text-gray-800 break-words">{children}</dd>
+  </div>
+);
+
+// Inspector for the image on the canvas: how it was generated and from what.
+const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, title, imageUrl, metadata }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(metadata, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Failed to copy generation metadata', err);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            className="relative bg-white rounded-2xl shadow-xl p-4 sm:p-6 flex flex-col gap-4 w-full max-w-2xl max-h-full overflow-hidden"
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-label="Image details"
+          >
+            <button
+              onClick={onClose}
+              className="absolute top-3 right-3 text-gray-500 hover:text-gray-800 p-1.5 rounded-md hover:bg-gray-100 transition-colors"
+              aria-label="Close image details"
+            >
+              <XIcon className="w-5 h-5" />
+            </button>
+            <div className="pr-8">
+              <h2 className="text-xl font-serif tracking-wider text-gray-800">Image Details</h2>
+              <p className="text-sm text-gray-600 truncate" title={title}>{title}</p>
+            </div>
+            <div className="flex gap-4 overflow-y-auto">
+              {imageUrl && <img src={imageUrl} alt="" className="hidden sm:block w-32 h-48 object-cover rounded-md flex-shrink-0 bg-gray-100" />}
+              {metadata ? (
+                <dl className="flex-grow min-w-0 flex flex-col gap-2">
+                  <Field label="Operation">{metadata.operation}</Field>
+                  <Field label="Model">{metadata.model} <span className="text-gray-500">via {metadata.provider}</span></Field>
+                  <Field label="Finish reason">{metadata.finishReason ?? 'Not reported'}</Field>
+                  <Field label="Latency">{formatLatency(metadata.latencyMs)}</Field>
+                  <Field label="Generated">{new Date(metadata.createdAt).toLocaleString()}</Field>
+                  <Field label="Input images">
+                    {metadata.inputHashes.length === 0 ? 'None' : (
+                      <ul className="font-mono text-xs">
+                        {metadata.inputHashes.map((hash, i) => (
+                          <li key={i} title={hash}>{i + 1}. {hash.slice(0, 16)}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </Field>
+                  <Field label="Prompt">
+                    {metadata.prompt ? (
+                      <pre className="whitespace-pre-wrap font-mono text-xs bg-gray-50 border border-gray-200 rounded-md p-2 max-h-60 overflow-y-auto">{metadata.prompt}</pre>
+                    ) : 'Not reported'}
+                  </Field>
+                </dl>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  No generation details for this image. Images from before details were recorded have none.
+                </p>
+              )}
+            </div>
+            {metadata && (
+              <div className="flex justify-end">
+                <button onClick={handleCopy} className="text-sm font-semibold text-gray-700 bg-gray-200 rounded-md px-4 py-2 hover:bg-gray-300 transition-colors">
+                  {copied ? 'Copied' : 'Copy as JSON'}
+                </button>
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default DebugModal;
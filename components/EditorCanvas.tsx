@@ -2,3 +2,135 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useRef } from 'react';
+import { CropRect, ImageEdits, renderEditedImage, rotatedSize } from '../lib/imageEditing';
+
+interface EditorCanvasProps {
+  source: ImageBitmap;
+  edits: ImageEdits;
+  /** Width / height in pixels to hold the crop to, or null for free cropping. */
+  aspectRatio: number | null;
+  showCropHandles: boolean;
+  onCropChange: (crop: CropRect) => void;
+}
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  mode: 'move' | Corner;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+const PREVIEW_MAX_DIMENSION = 900;
+const MIN_CROP_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Live preview of the edited image. The whole rotated image is drawn with the
+// crop shown as an overlay, so the crop can be moved and resized in place.
+const EditorCanvas: React.FC<EditorCanvasProps> = ({ source, edits, aspectRatio, showCropHandles, onCropChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const rotated = rotatedSize(source.width, source.height, edits.rotation);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const scale = Math.min(1, PREVIEW_MAX_DIMENSION / Math.max(source.width, source.height));
+    const preview = renderEditedImage(source, source.width, source.height, edits, { scale, includeCrop: false });
+    canvas.width = preview.width;
+    canvas.height = preview.height;
+    canvas.getContext('2d')?.drawImage(preview, 0, 0);
+  }, [source, edits.rotation, edits.flipHorizontal, edits.brightness, edits.contrast, edits.saturation, edits.filter]);
+
+  const resizeFromCorner = (corner: Corner, start: CropRect, dx: number, dy: number): CropRect => {
+    const anchorX = corner.includes('w') ? start.x + start.width : start.x;
+    const anchorY = corner.includes('n') ? start.y + start.height : start.y;
+    const cornerX = clamp((corner.includes('w') ? start.x : start.x + start.width) + dx, 0, 1);
+    const cornerY = clamp((corner.includes('n') ? start.y : start.y + start.height) + dy, 0, 1);
+    let width = Math.max(MIN_CROP_SIZE, Math.abs(cornerX - anchorX));
+    let height = Math.max(MIN_CROP_SIZE, Math.abs(cornerY - anchorY));
+    const maxWidth = corner.includes('w') ? anchorX : 1 - anchorX;
+    const maxHeight = corner.includes('n') ? anchorY : 1 - anchorY;
+    if (aspectRatio) {
+      // The ratio in crop fractions differs from pixels when the image isn't square.
+      const fractionRatio = aspectRatio * (rotated.height / rotated.width);
+      height = width / fractionRatio;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = height * fractionRatio;
+      }
+    }
+    width = Math.min(width, maxWidth);
+    height = Math.min(height, maxHeight);
+    return {
+      x: corner.includes('w') ? anchorX - width : anchorX,
+      y: corner.includes('n') ? anchorY - height : anchorY,
+      width,
+      height,
+    };
+  };
+
+  const handlePointerDown = (mode: DragState['mode']) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: edits.crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container) return;
+    const rect = container.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const start = drag.startCrop;
+    if (drag.mode === 'move') {
+      onCropChange({
+        ...start,
+        x: clamp(start.x + dx, 0, 1 - start.width),
+        y: clamp(start.y + dy, 0, 1 - start.height),
+      });
+    } else {
+      onCropChange(resizeFromCorner(drag.mode, start, dx, dy));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    dragRef.current = null;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+  };
+
+  const { crop } = edits;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative inline-block overflow-hidden select-none touch-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <canvas ref={canvasRef} className="block max-w-full max-h-[55vh] w-auto h-auto" />
+      <div
+        className={`absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] ${showCropHandles ? 'cursor-move' : 'pointer-events-none'}`}
+        style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+        onPointerDown={showCropHandles ? handlePointerDown('move') : undefined}
+      >
+        {showCropHandles && (['nw', 'ne', 'sw', 'se'] as const).map(corner => (
+          <div
+            key={corner}
+            onPointerDown={handlePointerDown(corner)}
+            className={`absolute w-4 h-4 bg-white rounded-sm border border-gray-800 ${corner.includes('n') ? '-top-2' : '-bottom-2'} ${corner.includes('w') ? '-left-2' : '-right-2'} ${corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+            aria-hidden="true"
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EditorCanvas;
@@ -2,7 +2,46 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useMemo } from 'react';
+import { DEFAULT_IMAGE_EDITS, IMAGE_FILTERS, ImageFilterId, renderEditedImage } from '../lib/imageEditing';
+
+interface FilterPanelProps {
+  source: ImageBitmap;
+  value: ImageFilterId;
+  onChange: (filter: ImageFilterId) => void;
+}
+
+const THUMBNAIL_SIZE = 64;
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ source, value, onChange }) => {
+  const thumbnails = useMemo(() => {
+    const scale = THUMBNAIL_SIZE / Math.max(source.width, source.height);
+    return IMAGE_FILTERS.map(filter => ({
+      ...filter,
+      url: renderEditedImage(source, source.width, source.height, { ...DEFAULT_IMAGE_EDITS, filter: filter.id }, { scale }).toDataURL(),
+    }));
+  }, [source]);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {thumbnails.map(filter => (
+        <button
+          key={filter.id}
+          type="button"
+          onClick={() => onChange(filter.id)}
+          className="flex flex-col items-center gap-1"
+          aria-pressed={value === filter.id}
+        >
+          <img
+            src={filter.url}
+            alt=""
+            className={`w-14 h-14 object-cover rounded-md border-2 transition-colors ${value === filter.id ? 'border-gray-800' : 'border-transparent'}`}
+          />
+          <span className={`text-xs ${value === filter.id ? 'font-semibold text-gray-900' : 'text-gray-600'}`}>{filter.label}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
 
-// This component is not used in the current application flow.
-const FilterPanel = () => null;
 export default FilterPanel;
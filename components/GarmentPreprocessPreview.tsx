@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { Compare } from './ui/compare';
+import Spinner from './Spinner';
+import type { PreprocessOptions, PreprocessResult } from '../lib/imagePreprocessing';
+
+interface GarmentPreprocessPreviewProps {
+  originalUrl: string;
+  processedUrl: string | null;
+  result: PreprocessResult | null;
+  options: PreprocessOptions;
+  onOptionsChange: (options: PreprocessOptions) => void;
+  isProcessing: boolean;
+  onEditPhoto: () => void;
+}
+
+// Before/after slider for an uploaded garment and the clean-up applied to it.
+const GarmentPreprocessPreview: React.FC<GarmentPreprocessPreviewProps> = ({ originalUrl, processedUrl, result, options, onOptionsChange, isProcessing, onEditPhoto }) => {
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 mb-2 animate-fade-in">
+      <div className="flex gap-3">
+        <div className="relative flex-shrink-0">
+          <Compare
+            firstImage={originalUrl}
+            secondImage={processedUrl ?? originalUrl}
+            slideMode="drag"
+            className="w-28 h-28 rounded-md bg-[repeating-conic-gradient(#e5e7eb_0%_25%,#ffffff_0%_50%)] bg-[length:16px_16px]"
+          />
+          {isProcessing && (
+            <div className="absolute inset-0 bg-white/70 flex items-center justify-center rounded-md">
+              <Spinner />
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col gap-1.5 text-sm text-gray-700 min-w-0">
+          <p className="font-semibold text-gray-800">Clean-up</p>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.autoCrop}
+              onChange={(e) => onOptionsChange({ ...options, autoCrop: e.target.checked })}
+              disabled={isProcessing}
+              className="accent-gray-800"
+            />
+            Crop to garment
+          </label>
+          <label className={`flex items-center gap-2 ${result && !result.hasFlatBackground ? 'opacity-50' : ''}`}>
+            <input
+              type="checkbox"
+              checked={options.removeBackground}
+              onChange={(e) => onOptionsChange({ ...options, removeBackground: e.target.checked })}
+              disabled={isProcessing || (result !== null && !result.hasFlatBackground)}
+              className="accent-gray-800"
+            />
+            Remove background
+          </label>
+          {result && (
+            <p className="text-xs text-gray-500">
+              {result.steps.length > 0 ? result.steps.join(' · ') : 'No changes needed'} &middot; {result.width}×{result.height}
+              {!result.hasFlatBackground && ' · Background too busy to remove'}
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={onEditPhoto}
+            disabled={isProcessing}
+            className="self-start text-xs font-semibold text-gray-700 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Crop, rotate & adjust...
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GarmentPreprocessPreview;
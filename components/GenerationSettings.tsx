@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { MAX_CANDIDATES } from '../services/geminiService';
+
+interface GenerationSettingsProps {
+  candidateCount: number;
+  onCandidateCountChange: (count: number) => void;
+  disabled: boolean;
+}
+
+const GenerationSettings: React.FC<GenerationSettingsProps> = ({ candidateCount, onCandidateCountChange, disabled }) => (
+  <div className="flex flex-col">
+    <h2 className="text-xl font-serif tracking-wider text-gray-800 border-b border-gray-400/50 pb-2 mb-3">Generation</h2>
+    <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+      Results per generation
+      <select
+        value={candidateCount}
+        onChange={(e) => onCandidateCountChange(Number(e.target.value))}
+        disabled={disabled}
+        className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white disabled:opacity-50"
+      >
+        {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(count => (
+          <option key={count} value={count}>{count}</option>
+        ))}
+      </select>
+    </label>
+    <p className="text-xs text-gray-500 mt-2">With more than one, garments, looks and poses show every result so you can keep the best. More results take longer.</p>
+  </div>
+);
+
+export default GenerationSettings;
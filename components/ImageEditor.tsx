@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ASPECT_PRESETS,
+  AspectPresetId,
+  DEFAULT_IMAGE_EDITS,
+  FULL_CROP,
+  ImageEdits,
+  Rotation,
+  applyImageEdits,
+  decodeImageFile,
+  fitCropToAspect,
+  hasImageEdits,
+  rotatedSize,
+} from '../lib/imageEditing';
+import EditorCanvas from './EditorCanvas';
+import Toolbar, { EditorTool } from './Toolbar';
+import ToolOptions from './ToolOptions';
+import Spinner from './Spinner';
+import { XIcon } from './icons';
+
+interface ImageEditorProps {
+  file: File;
+  title: string;
+  /** Receives the edited file, or the original when nothing was changed. */
+  onApply: (file: File) => void;
+  onCancel: () => void;
+}
+
+// Modal editor for a photo before it is uploaded: crop, rotate, adjust and
+// filter. Edits are previewed on a downscaled copy and rendered at full
+// resolution only when applied.
+const ImageEditor: React.FC<ImageEditorProps> = ({ file, title, onApply, onCancel }) => {
+  const [source, setSource] = useState<ImageBitmap | null>(null);
+  const [edits, setEdits] = useState<ImageEdits>(DEFAULT_IMAGE_EDITS);
+  const [tool, setTool] = useState<EditorTool>('crop');
+  const [aspect, setAspect] = useState<AspectPresetId>('free');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let bitmap: ImageBitmap | null = null;
+    decodeImageFile(file)
+      .then(decoded => {
+        bitmap = decoded;
+        if (cancelled) decoded.close();
+        else setSource(decoded);
+      })
+      .catch(err => {
+        console.error('Failed to decode image for editing', err);
+        if (!cancelled) setError('This image could not be opened for editing.');
+      });
+    return () => {
+      cancelled = true;
+      bitmap?.close();
+    };
+  }, [file]);
+
+  const cropFor = (rotation: Rotation, preset: AspectPresetId) => {
+    const ratio = ASPECT_PRESETS.find(p => p.id === preset)?.ratio;
+    if (!source || !ratio) return FULL_CROP;
+    const size = rotatedSize(source.width, source.height, rotation);
+    return fitCropToAspect(FULL_CROP, ratio, size.width, size.height);
+  };
+
+  const handleAspectChange = (preset: AspectPresetId) => {
+    setAspect(preset);
+    setEdits(prev => ({ ...prev, crop: cropFor(prev.rotation, preset) }));
+  };
+
+  // Rotating changes the image's proportions, so the crop starts over.
+  const handleRotate = (direction: 'left' | 'right') => {
+    setEdits(prev => {
+      const rotation = ((prev.rotation + (direction === 'right' ? 90 : 270)) % 360) as Rotation;
+      return { ...prev, rotation, crop: cropFor(rotation, aspect) };
+    });
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(await applyImageEdits(file, edits));
+    } catch (err) {
+      console.error('Failed to apply image edits', err);
+      setError('Could not apply the edits. Please try again.');
+      setIsApplying(false);
+    }
+  };
+
+  const ratio = ASPECT_PRESETS.find(p => p.id === aspect)?.ratio ?? null;
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        className="relative bg-white rounded-2xl shadow-xl p-4 sm:p-6 flex flex-col items-center gap-4 w-full max-w-2xl max-h-full overflow-y-auto"
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        role="dialog"
+        aria-label={title}
+      >
+        <button
+          onClick={onCancel}
+          className="absolute top-3 right-3 text-gray-500 hover:text-gray-800 p-1.5 rounded-md hover:bg-gray-100 transition-colors"
+          aria-label="Close editor"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-xl font-serif tracking-wider text-gray-800">{title}</h2>
+        {source ? (
+          <>
+            <Toolbar activeTool={tool} onToolChange={setTool} />
+            <EditorCanvas
+              source={source}
+              edits={edits}
+              aspectRatio={ratio}
+              showCropHandles={tool === 'crop'}
+              onCropChange={(crop) => setEdits(prev => ({ ...prev, crop }))}
+            />
+            <div className="w-full">
+              <ToolOptions
+                tool={tool}
+                source={source}
+                edits={edits}
+                aspect={aspect}
+                onAspectChange={handleAspectChange}
+                onRotate={handleRotate}
+                onFlip={() => setEdits(prev => ({ ...prev, flipHorizontal: !prev.flipHorizontal }))}
+                onResetCrop={() => setEdits(prev => ({ ...prev, crop: cropFor(prev.rotation, aspect) }))}
+                onChange={(changes) => setEdits(prev => ({ ...prev, ...changes }))}
+              />
+            </div>
+          </>
+        ) : !error && (
+          <div className="h-64 flex items-center justify-center"><Spinner /></div>
+        )}
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <div className="flex w-full items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => setEdits(DEFAULT_IMAGE_EDITS)}
+            disabled={!hasImageEdits(edits) || isApplying}
+            className="mr-auto text-sm font-semibold text-gray-600 hover:underline disabled:opacity-40 disabled:no-underline"
+          >
+            Reset all
+          </button>
+          <button type="button" onClick={onCancel} className="text-sm font-semibold text-gray-600 hover:underline px-2">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!source || isApplying}
+            className="text-sm font-semibold bg-gray-800 text-white rounded-md px-4 py-2 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isApplying ? 'Applying...' : hasImageEdits(edits) ? 'Apply & Continue' : 'Continue'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ImageEditor;
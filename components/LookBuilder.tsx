@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { WardrobeItem } from '../types';
+import { MAX_LOOK_GARMENTS } from '../lib/outfitTree';
+import { ChevronDownIcon, ChevronUpIcon, XIcon } from './icons';
+
+interface LookBuilderProps {
+  /** Picked garments in layering order, innermost first. */
+  garments: WardrobeItem[];
+  isLoading: boolean;
+  onReorder: (garments: WardrobeItem[]) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const iconButtonClassName = "flex-shrink-0 text-gray-500 p-1 rounded-md hover:text-gray-800 hover:bg-gray-100 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+// The garments picked for a look, in the order they are layered. The whole
+// look is applied in one generation instead of one try-on per garment.
+const LookBuilder: React.FC<LookBuilderProps> = ({ garments, isLoading, onReorder, onApply, onCancel }) => {
+  const move = (from: number, to: number) => {
+    const next = [...garments];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onReorder(next);
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-800">New look</h3>
+        <span className="text-xs text-gray-500">{garments.length} of {MAX_LOOK_GARMENTS}</span>
+      </div>
+      {garments.length === 0 ? (
+        <p className="text-sm text-gray-500">Pick garments below, from the innermost layer outwards.</p>
+      ) : (
+        <ol className="space-y-1">
+          {garments.map((garment, i) => (
+            <li key={garment.id} className="flex items-center gap-2 text-sm text-gray-700">
+              <span className="w-4 text-xs font-bold text-gray-500 text-right">{i + 1}</span>
+              <img src={garment.url} alt="" className="w-8 h-8 object-cover rounded" />
+              <span className="flex-grow truncate" title={garment.name}>{garment.name}</span>
+              <button onClick={() => move(i, i - 1)} disabled={i === 0} className={iconButtonClassName} aria-label={`Layer ${garment.name} further in`}>
+                <ChevronUpIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => move(i, i + 1)} disabled={i === garments.length - 1} className={iconButtonClassName} aria-label={`Layer ${garment.name} further out`}>
+                <ChevronDownIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => onReorder(garments.filter(other => other.id !== garment.id))} className={iconButtonClassName} aria-label={`Remove ${garment.name} from the look`}>
+                <XIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="flex items-center justify-end gap-3 mt-3">
+        <button onClick={onCancel} className="text-sm font-semibold text-gray-600 hover:underline">Cancel</button>
+        <button
+          onClick={onApply}
+          disabled={isLoading || garments.length < 2}
+          className="text-sm font-semibold bg-gray-800 text-white rounded-md px-3 py-1.5 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Apply Look
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LookBuilder;
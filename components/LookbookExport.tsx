@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { OutfitLayer } from '../types';
+import { exportLookbookPdf, exportLookbookZip } from '../services/lookbookService';
+import { downloadBlob } from '../lib/utils';
+import { DownloadIcon } from './icons';
+
+interface LookbookExportProps {
+  layers: OutfitLayer[];
+  disabled: boolean;
+  onError: (error: unknown) => void;
+}
+
+type ExportFormat = 'pdf' | 'zip';
+
+const LOOKBOOK_TITLE = 'Lookbook';
+
+const LookbookExport: React.FC<LookbookExportProps> = ({ layers, disabled, onError }) => {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const stamp = new Date().toISOString().slice(0, 10);
+      const blob = format === 'pdf'
+        ? await exportLookbookPdf(layers, LOOKBOOK_TITLE)
+        : await exportLookbookZip(layers, LOOKBOOK_TITLE);
+      downloadBlob(blob, `lookbook-${stamp}.${format}`);
+    } catch (err) {
+      onError(err);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (layers.length === 0) return null;
+
+  return (
+    <div className="flex flex-col">
+      <h2 className="text-xl font-serif tracking-wider text-gray-800 border-b border-gray-400/50 pb-2 mb-3">Export Lookbook</h2>
+      <div className="flex gap-2">
+        {(['pdf', 'zip'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={disabled || exporting !== null}
+            className="flex-1 flex items-center justify-center gap-2 text-sm font-semibold text-gray-700 bg-white/70 border border-gray-300 rounded-full px-3 py-2 hover:bg-white hover:border-gray-400 active:scale-95 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            {exporting === format ? 'Exporting...' : format === 'pdf' ? 'PDF' : 'Images (ZIP)'}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Every pose of each step of the current outfit, with the garments worn.
+      </p>
+    </div>
+  );
+};
+
+export default LookbookExport;
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { ModelCreationSettings } from '../types';
+import { MAX_CUSTOM_MODEL_PROMPT_LENGTH, MODEL_CREATION_MODES } from '../lib/modelCreation';
+
+interface ModelCreationModePickerProps {
+  value: ModelCreationSettings;
+  onChange: (value: ModelCreationSettings) => void;
+}
+
+const ModelCreationModePicker: React.FC<ModelCreationModePickerProps> = ({ value, onChange }) => {
+  const selected = MODEL_CREATION_MODES.find(mode => mode.id === value.mode);
+  return (
+    <div className="w-full text-left">
+      <div role="radiogroup" aria-label="Model style" className="grid grid-cols-3 gap-1 p-1 bg-gray-100 rounded-lg">
+        {MODEL_CREATION_MODES.map(mode => (
+          <button
+            key={mode.id}
+            type="button"
+            role="radio"
+            aria-checked={value.mode === mode.id}
+            onClick={() => onChange({ ...value, mode: mode.id })}
+            className={`text-sm font-semibold py-1.5 rounded-md transition-colors ${value.mode === mode.id ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      {selected && <p className="text-xs text-gray-500 mt-1.5 text-center">{selected.description}</p>}
+      {value.mode === 'custom' && (
+        <textarea
+          value={value.customPrompt ?? ''}
+          onChange={(e) => onChange({ ...value, customPrompt: e.target.value })}
+          maxLength={MAX_CUSTOM_MODEL_PROMPT_LENGTH}
+          rows={3}
+          placeholder="e.g. keep my build but improve my posture"
+          className="mt-2 w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-gray-800 resize-none"
+          aria-label="Describe the model you want"
+        />
+      )}
+    </div>
+  );
+};
+
+export default ModelCreationModePicker;
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { SessionSummary } from '../types';
+import { PlusIcon, ShirtIcon } from './icons';
+
+interface ModelSwitcherProps {
+  models: SessionSummary[];
+  currentModelId: string | null;
+  /** Garments in the current outfit; applying an empty outfit does nothing. */
+  outfitSize: number;
+  isLoading: boolean;
+  onSwitch: (id: string) => void;
+  onApplyOutfit: (id: string) => void;
+  onAddModel: () => void;
+}
+
+// Strip of the other saved models on the dressing screen. Each model keeps its
+// own outfits; "Wear outfit" replays the current garment stack on that model.
+const ModelSwitcher: React.FC<ModelSwitcherProps> = ({ models, currentModelId, outfitSize, isLoading, onSwitch, onApplyOutfit, onAddModel }) => {
+  const current = models.find(model => model.id === currentModelId);
+  const others = models.filter(model => model.id !== currentModelId);
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center justify-between border-b border-gray-400/50 pb-2 mb-3">
+        <h2 className="text-xl font-serif tracking-wider text-gray-800">Models</h2>
+        <button
+          onClick={onAddModel}
+          disabled={isLoading}
+          className="flex items-center gap-1 text-sm font-semibold text-gray-600 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <PlusIcon className="w-4 h-4" />
+          New model
+        </button>
+      </div>
+      {current && <p className="text-sm text-gray-600 mb-2 truncate">Dressing <strong>{current.name}</strong></p>}
+      {others.length === 0 ? (
+        <p className="text-sm text-gray-500">Add another model to switch between people or try this outfit on them.</p>
+      ) : (
+        <div className="flex gap-3 overflow-x-auto pb-1">
+          {others.map(model => (
+            <div key={model.id} className="flex-shrink-0 w-20 flex flex-col items-center gap-1">
+              <button
+                onClick={() => onSwitch(model.id)}
+                disabled={isLoading}
+                className="w-20 h-28 rounded-md overflow-hidden border border-gray-200 hover:border-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label={`Switch to ${model.name}`}
+                title={`Switch to ${model.name}`}
+              >
+                {model.thumbnailUrl ? (
+                  <img src={model.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full bg-gray-200" />
+                )}
+              </button>
+              <p className="w-full text-xs text-gray-700 text-center truncate" title={model.name}>{model.name}</p>
+              <button
+                onClick={() => onApplyOutfit(model.id)}
+                disabled={isLoading || outfitSize === 0}
+                className="flex items-center gap-1 text-xs font-semibold text-gray-600 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label={`Put this outfit on ${model.name}`}
+                title="Put this outfit on this model"
+              >
+                <ShirtIcon className="w-3.5 h-3.5" />
+                Wear outfit
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelSwitcher;
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import type { OutfitLayer, OutfitTree } from '../types';
+import { describeLayer, getChildren, getLayerBaseImage, getLayerGarments, getLayerPath, getRootLayer } from '../lib/outfitTree';
+import ComparisonView, { ComparedItem, MAX_COMPARED_ITEMS } from './ComparisonView';
+
+interface OutfitHistoryBrowserProps {
+  outfitTree: OutfitTree;
+  currentLayerId: string | null;
+  initialPoseInstruction: string;
+  isLoading: boolean;
+  onSelectLayer: (id: string) => void;
+}
+
+export const describeOutfit = (tree: OutfitTree, id: string): string => {
+  const garments = getLayerPath(tree, id).flatMap(getLayerGarments).map(garment => garment.name);
+  return garments.length > 0 ? garments.join(' + ') : 'Base Model';
+};
+
+// An image picked for comparison: one pose of one outfit.
+interface CompareSelection {
+  layerId: string;
+  poseInstruction: string;
+}
+
+const selectionKey = ({ layerId, poseInstruction }: CompareSelection) => `${layerId}::${poseInstruction}`;
+
+// Every outfit built in this session, as a tree: siblings are alternatives on
+// the same base. Click an outfit to jump to it, or tick up to four outfits or
+// poses to compare them.
+const OutfitHistoryBrowser: React.FC<OutfitHistoryBrowserProps> = ({ outfitTree, currentLayerId, initialPoseInstruction, isLoading, onSelectLayer }) => {
+  const [selections, setSelections] = useState<CompareSelection[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const currentPathIds = useMemo(
+    () => new Set(getLayerPath(outfitTree, currentLayerId).map(layer => layer.id)),
+    [outfitTree, currentLayerId]
+  );
+  const root = getRootLayer(outfitTree);
+  const validSelections = selections.filter(({ layerId, poseInstruction }) => outfitTree[layerId]?.poseImages[poseInstruction]);
+  const selectedKeys = new Set(validSelections.map(selectionKey));
+
+  const toggleSelection = (selection: CompareSelection) => {
+    const key = selectionKey(selection);
+    setSelections(selectedKeys.has(key)
+      ? validSelections.filter(existing => selectionKey(existing) !== key)
+      : [...validSelections, selection].slice(-MAX_COMPARED_ITEMS));
+  };
+
+  const toComparedItem = (selection: CompareSelection): ComparedItem => {
+    const outfit = describeOutfit(outfitTree, selection.layerId);
+    return {
+      id: selectionKey(selection),
+      label: selection.poseInstruction === initialPoseInstruction ? outfit : `${outfit} · ${selection.poseInstruction}`,
+      imageUrl: outfitTree[selection.layerId].poseImages[selection.poseInstruction],
+    };
+  };
+
+  const renderNode = (layer: OutfitLayer, depth: number): React.ReactNode => {
+    const isCurrent = layer.id === currentLayerId;
+    const isOnPath = currentPathIds.has(layer.id);
+    const initialPose = layer.poseImages[initialPoseInstruction] ? initialPoseInstruction : Object.keys(layer.poseImages)[0];
+    const otherPoses = Object.keys(layer.poseImages).filter(pose => pose !== initialPose);
+    const name = describeLayer(layer);
+    return (
+      <React.Fragment key={layer.id}>
+        <div
+          className={`flex items-center gap-2 p-1.5 rounded-lg border transition-colors ${isCurrent ? 'border-gray-800 bg-white' : isOnPath ? 'border-gray-300 bg-white/70' : 'border-transparent hover:border-gray-200'}`}
+          style={{ marginLeft: depth * 16 }}
+        >
+          <input
+            type="checkbox"
+            checked={selectedKeys.has(selectionKey({ layerId: layer.id, poseInstruction: initialPose }))}
+            onChange={() => toggleSelection({ layerId: layer.id, poseInstruction: initialPose })}
+            className="flex-shrink-0 accent-gray-800"
+            aria-label={`Select ${describeOutfit(outfitTree, layer.id)} for comparison`}
+          />
+          <button
+            onClick={() => onSelectLayer(layer.id)}
+            disabled={isLoading || isCurrent}
+            className="flex items-center flex-grow overflow-hidden text-left disabled:cursor-default"
+            aria-label={`Jump to ${describeOutfit(outfitTree, layer.id)}`}
+          >
+            <img
+              src={getLayerBaseImage(layer, initialPoseInstruction)}
+              alt=""
+              className="flex-shrink-0 w-8 h-12 object-cover rounded mr-2"
+            />
+            <span className={`truncate text-sm ${isOnPath ? 'font-semibold text-gray-800' : 'text-gray-600'}`} title={name}>
+              {layer.parentId ? `+ ${name}` : name}
+            </span>
+          </button>
+        </div>
+        {otherPoses.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 pl-7 pb-1" style={{ marginLeft: depth * 16 }}>
+            {otherPoses.map(pose => {
+              const isSelected = selectedKeys.has(selectionKey({ layerId: layer.id, poseInstruction: pose }));
+              return (
+                <button
+                  key={pose}
+                  onClick={() => toggleSelection({ layerId: layer.id, poseInstruction: pose })}
+                  className={`relative w-8 h-12 rounded overflow-hidden border-2 transition-colors ${isSelected ? 'border-gray-800' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                  title={pose}
+                  aria-pressed={isSelected}
+                  aria-label={`Select pose "${pose}" of ${describeOutfit(outfitTree, layer.id)} for comparison`}
+                >
+                  <img src={layer.poseImages[pose]} alt="" className="w-full h-full object-cover" />
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {getChildren(outfitTree, layer.id).map(child => renderNode(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  if (!root || getChildren(outfitTree, root.id).length === 0) return null;
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center justify-between border-b border-gray-400/50 pb-2 mb-3">
+        <h2 className="text-xl font-serif tracking-wider text-gray-800">History</h2>
+        <button
+          onClick={() => setIsComparing(true)}
+          disabled={validSelections.length < 2}
+          className="text-sm font-semibold text-gray-700 bg-white/70 border border-gray-300 rounded-full px-3 py-1 hover:bg-white hover:border-gray-400 active:scale-95 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          title={`Select two to ${MAX_COMPARED_ITEMS} outfits or poses to compare them`}
+        >
+          Compare{validSelections.length > 0 ? ` (${validSelections.length}/${MAX_COMPARED_ITEMS})` : ''}
+        </button>
+      </div>
+      <div className="space-y-1 max-h-72 overflow-y-auto">
+        {renderNode(root, 0)}
+      </div>
+      <AnimatePresence>
+        {isComparing && validSelections.length >= 2 && (
+          <ComparisonView
+            items={validSelections.map(toComparedItem)}
+            onClose={() => setIsComparing(false)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default OutfitHistoryBrowser;
@@ -3,48 +3,216 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
-import { OutfitLayer } from '../types';
-import { Trash2Icon } from './icons';
+import React, { useState } from 'react';
+import { OutfitLayer, PendingLayer, WardrobeItem } from '../types';
+import { AlertTriangleIcon, Trash2Icon, ChevronUpIcon, ChevronDownIcon, ChevronRightIcon, RepeatIcon } from './icons';
+import { isAccessoryCategory } from '../wardrobe';
+import { describeLayer, getLayerGarments } from '../lib/outfitTree';
+import { DRIFT_THRESHOLD } from '../lib/identityDrift';
 
 interface OutfitStackProps {
   outfitHistory: OutfitLayer[];
-  onRemoveLastGarment: () => void;
+  pendingLayers: PendingLayer[];
+  isLoading: boolean;
+  swapTargetIndex: number | null;
+  onRemoveLayer: (index: number) => void;
+  onMoveLayer: (fromIndex: number, toIndex: number) => void;
+  onSwapLayer: (index: number) => void;
+  /** How far each layer has drifted from the base model's identity, by layer id (0 to 1). */
+  layerDrift: Record<string, number>;
+  onRegenerateFromBase: (index: number) => void;
 }
 
-const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRemoveLastGarment }) => {
+const iconButtonClassName = "flex-shrink-0 text-gray-500 transition-colors p-1.5 rounded-md disabled:opacity-30 disabled:cursor-not-allowed";
+
+// Thumbnails of a look's garments, overlapping like a fanned stack.
+const LookThumbnails: React.FC<{ garments: WardrobeItem[]; dimmed?: boolean }> = ({ garments, dimmed }) => (
+  <div className={`flex-shrink-0 flex -space-x-6 mr-3 ${dimmed ? 'opacity-60' : ''}`}>
+    {garments.slice(0, 3).map(garment => (
+      <img key={garment.id} src={garment.url} alt="" className="w-12 h-12 object-cover rounded-md border-2 border-white" />
+    ))}
+  </div>
+);
+
+const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, pendingLayers, isLoading, swapTargetIndex, onRemoveLayer, onMoveLayer, onSwapLayer, layerDrift, onRegenerateFromBase }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [expandedLookId, setExpandedLookId] = useState<string | null>(null);
+
+  // Accessories are listed apart from apparel, including looks made only of
+  // accessories. Layers keep their stack positions, and reordering moves a
+  // layer past the neighbours in its group.
+  const isAccessoryLayer = (index: number) => {
+    const garments = outfitHistory[index] ? getLayerGarments(outfitHistory[index]) : [];
+    return garments.length > 0 && garments.every(garment => isAccessoryCategory(garment.category));
+  };
+  const apparelIndices = outfitHistory.map((_, index) => index).filter(index => !isAccessoryLayer(index));
+  const accessoryIndices = outfitHistory.map((_, index) => index).filter(isAccessoryLayer);
+  const groupOf = (index: number) => isAccessoryLayer(index) ? accessoryIndices : apparelIndices.slice(1);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index && groupOf(dragIndex).includes(index)) {
+      onMoveLayer(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const renderLayer = (index: number) => {
+    const layer = outfitHistory[index];
+    const isGarment = index > 0;
+    const group = groupOf(index);
+    const position = group.indexOf(index);
+    const previousIndex = group[position - 1];
+    const nextIndex = group[position + 1];
+    const canDrag = isGarment && !isLoading && group.length > 1;
+    const name = describeLayer(layer);
+    const isExpanded = !!layer.look && expandedLookId === layer.id;
+    const drift = layerDrift[layer.id];
+    const hasDrifted = isGarment && drift !== undefined && drift > DRIFT_THRESHOLD;
+    return (
+      <React.Fragment key={layer.id}>
+        <div
+          draggable={canDrag}
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => {
+            if (dragIndex === null || !isGarment || !group.includes(dragIndex)) return;
+            e.preventDefault();
+            setDropIndex(index);
+          }}
+          onDragLeave={() => setDropIndex(prev => prev === index ? null : prev)}
+          onDrop={() => handleDrop(index)}
+          onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+          className={`flex items-center justify-between bg-white/50 p-2 rounded-lg animate-fade-in border transition-colors ${dropIndex === index && dragIndex !== index ? 'border-gray-800' : 'border-gray-200/80'} ${swapTargetIndex === index ? 'ring-2 ring-gray-800' : ''} ${dragIndex === index ? 'opacity-50' : ''} ${canDrag ? 'cursor-grab' : ''}`}
+        >
+          <div className="flex items-center overflow-hidden">
+              <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 mr-3 text-xs font-bold text-gray-600 bg-gray-200 rounded-full">
+                {index + 1}
+              </span>
+              {layer.garment && (
+                  <img src={layer.garment.url} alt={layer.garment.name} className="flex-shrink-0 w-12 h-12 object-cover rounded-md mr-3" />
+              )}
+              {layer.look ? (
+                <>
+                  <LookThumbnails garments={layer.look} />
+                  <button
+                    onClick={() => setExpandedLookId(isExpanded ? null : layer.id)}
+                    className="flex items-center gap-1 font-semibold text-gray-800 truncate hover:underline"
+                    aria-expanded={isExpanded}
+                    title={name}
+                  >
+                    <ChevronRightIcon className={`flex-shrink-0 w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                    Look · {layer.look.length} pieces
+                  </button>
+                </>
+              ) : (
+                <span className="font-semibold text-gray-800 truncate" title={name}>{name}</span>
+              )}
+          </div>
+          {isGarment && (
+            <div className="flex items-center flex-shrink-0">
+              <button
+                onClick={() => onMoveLayer(index, previousIndex)}
+                disabled={isLoading || previousIndex === undefined}
+                className={`${iconButtonClassName} hover:text-gray-800 hover:bg-gray-100`}
+                aria-label={`Move ${name} up`}
+              >
+                <ChevronUpIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onMoveLayer(index, nextIndex)}
+                disabled={isLoading || nextIndex === undefined}
+                className={`${iconButtonClassName} hover:text-gray-800 hover:bg-gray-100`}
+                aria-label={`Move ${name} down`}
+              >
+                <ChevronDownIcon className="w-4 h-4" />
+              </button>
+              {!layer.look && (
+                <button
+                  onClick={() => onSwapLayer(index)}
+                  disabled={isLoading}
+                  className={`${iconButtonClassName} hover:text-gray-800 hover:bg-gray-100`}
+                  aria-label={`Swap ${name} for another garment`}
+                  title="Swap garment"
+                >
+                  <RepeatIcon className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => onRemoveLayer(index)}
+                disabled={isLoading}
+                className={`${iconButtonClassName} hover:text-red-600 hover:bg-red-50`}
+                aria-label={`Remove ${name}`}
+              >
+                <Trash2Icon className="w-5 h-5" />
+              </button>
+            </div>
+          )}
+        </div>
+        {hasDrifted && (
+          <div className="ml-9 flex items-center gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-2 py-1.5" role="status">
+            <AlertTriangleIcon className="flex-shrink-0 w-4 h-4" />
+            <span className="flex-grow">The face or body may have drifted from your model ({Math.round(drift * 100)}% different).</span>
+            <button
+              onClick={() => onRegenerateFromBase(index)}
+              disabled={isLoading}
+              className="flex-shrink-0 font-semibold hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Generate this outfit again directly on the base model"
+            >
+              Regenerate from base
+            </button>
+          </div>
+        )}
+        {isExpanded && layer.look && (
+          <ol className="ml-9 pl-3 border-l border-gray-200 space-y-1" aria-label={`Garments of ${name}, innermost first`}>
+            {layer.look.map(garment => (
+              <li key={garment.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <img src={garment.url} alt="" className="w-8 h-8 object-cover rounded" />
+                <span className="truncate" title={garment.name}>{garment.name}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </React.Fragment>
+    );
+  };
+
   return (
     <div className="flex flex-col">
       <h2 className="text-xl font-serif tracking-wider text-gray-800 border-b border-gray-400/50 pb-2 mb-3">Outfit Stack</h2>
       <div className="space-y-2">
-        {outfitHistory.map((layer, index) => (
-          <div
-            key={layer.garment?.id || 'base'}
-            className="flex items-center justify-between bg-white/50 p-2 rounded-lg animate-fade-in border border-gray-200/80"
-          >
-            <div className="flex items-center overflow-hidden">
-                <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 mr-3 text-xs font-bold text-gray-600 bg-gray-200 rounded-full">
-                  {index + 1}
-                </span>
-                {layer.garment && (
-                    <img src={layer.garment.url} alt={layer.garment.name} className="flex-shrink-0 w-12 h-12 object-cover rounded-md mr-3" />
-                )}
-                <span className="font-semibold text-gray-800 truncate" title={layer.garment?.name}>
-                  {layer.garment ? layer.garment.name : 'Base Model'}
-                </span>
+        {apparelIndices.map(renderLayer)}
+        {accessoryIndices.length > 0 && (
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 pt-2">Accessories</h3>
+        )}
+        {accessoryIndices.map(renderLayer)}
+        {pendingLayers.map((pending, i) => {
+          const name = pending.garments.map(garment => garment.name).join(' + ');
+          return (
+            <div
+              key={`pending-${pending.garments.map(garment => garment.id).join('+')}`}
+              className="flex items-center justify-between bg-gray-50 p-2 rounded-lg border border-dashed border-gray-300"
+            >
+              <div className="flex items-center overflow-hidden">
+                  <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 mr-3 text-xs font-bold text-gray-400 bg-gray-100 rounded-full">
+                    {outfitHistory.length + i + 1}
+                  </span>
+                  {pending.garments.length > 1 ? (
+                    <LookThumbnails garments={pending.garments} dimmed />
+                  ) : (
+                    <img src={pending.garments[0].url} alt={name} className="flex-shrink-0 w-12 h-12 object-cover rounded-md mr-3 opacity-60" />
+                  )}
+                  <span className="font-semibold text-gray-500 truncate" title={name}>
+                    {pending.garments.length > 1 ? `Look · ${pending.garments.length} pieces` : name}
+                  </span>
+              </div>
+              <span className={`flex-shrink-0 text-xs font-semibold px-2 ${pending.status === 'generating' ? 'text-gray-800 animate-pulse' : 'text-gray-400'}`}>
+                {pending.status === 'generating' ? 'Regenerating...' : 'Waiting'}
+              </span>
             </div>
-            {index > 0 && index === outfitHistory.length - 1 && (
-               <button
-                onClick={onRemoveLastGarment}
-                className="flex-shrink-0 text-gray-500 hover:text-red-600 transition-colors p-2 rounded-md hover:bg-red-50"
-                aria-label={`Remove ${layer.garment?.name}`}
-              >
-                <Trash2Icon className="w-5 h-5" />
-              </button>
-            )}
-          </div>
-        ))}
-        {outfitHistory.length === 1 && (
+          );
+        })}
+        {outfitHistory.length === 1 && pendingLayers.length === 0 && (
             <p className="text-center text-sm text-gray-500 pt-4">Your stacked items will appear here. Select an item from the wardrobe below.</p>
         )}
       </div>
@@ -3,37 +3,113 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import type { SavedPose } from '../types';
+import Spinner from './Spinner';
+import { LayoutGridIcon, Trash2Icon } from './icons';
 
 interface PosePanelProps {
-  onPoseSelect: (poseInstruction: string) => void;
+  poses: SavedPose[];
+  currentPoseInstruction: string;
+  /** Poses already generated for the current outfit layer, by instruction. */
+  layerPoseImages: Record<string, string>;
+  /** Instructions the pose sheet generates. */
+  sheet: string[];
+  /** Poses of the current layer still being regenerated in the background. */
+  pendingPoses: string[];
+  carryPosesOver: boolean;
+  onCarryPosesOverChange: (enabled: boolean) => void;
   isLoading: boolean;
+  onPoseSelect: (poseInstruction: string) => void;
+  onDeletePose: (id: string) => void;
+  onToggleSheetPose: (poseInstruction: string) => void;
+  onGenerateSheet: () => void;
 }
 
-const POSE_OPTIONS = [
-    "Slightly turned, 3/4 view",
-    "Side profile view",
-    "Walking towards camera",
-    "Leaning against a wall"
-];
+const PosePanel: React.FC<PosePanelProps> = ({ poses, currentPoseInstruction, layerPoseImages, sheet, pendingPoses, carryPosesOver, onCarryPosesOverChange, isLoading, onPoseSelect, onDeletePose, onToggleSheetPose, onGenerateSheet }) => {
+  const missingFromSheet = sheet.filter(instruction => !layerPoseImages[instruction] && !pendingPoses.includes(instruction)).length;
 
-const PosePanel: React.FC<PosePanelProps> = ({ onPoseSelect, isLoading }) => {
   return (
-    <div className="mt-auto pt-6 border-t">
-      <h2 className="text-xl font-serif tracking-wider text-gray-800 mb-3">Change Pose</h2>
-      <div className="grid grid-cols-2 gap-2">
-        {POSE_OPTIONS.map((pose) => (
-          <button
-            key={pose}
-            onClick={() => onPoseSelect(pose)}
-            disabled={isLoading}
-            className="w-full text-center bg-white border border-gray-300 text-gray-700 font-semibold py-2 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-gray-100 hover:border-gray-400 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed disabled:bg-gray-100"
-          >
-            {pose}
-          </button>
-        ))}
+    <div className="flex flex-col">
+      <h2 className="text-xl font-serif tracking-wider text-gray-800 border-b border-gray-400/50 pb-2 mb-3">Pose Library</h2>
+      <div className="grid grid-cols-3 gap-2">
+        {poses.map((pose) => {
+          // Prefer this outfit in the pose; fall back to wherever the pose was first generated.
+          const thumbnailUrl = layerPoseImages[pose.instruction] ?? pose.thumbnailUrl;
+          const isCurrent = pose.instruction === currentPoseInstruction;
+          const inSheet = sheet.includes(pose.instruction);
+          const isPending = pendingPoses.includes(pose.instruction) && !layerPoseImages[pose.instruction];
+          return (
+            <div key={pose.id} className="relative group">
+              <button
+                onClick={() => onPoseSelect(pose.instruction)}
+                disabled={isLoading}
+                className={`w-full flex flex-col rounded-md border overflow-hidden text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isCurrent ? 'border-gray-800 ring-1 ring-gray-800' : 'border-gray-200 hover:border-gray-400'}`}
+                title={pose.instruction}
+              >
+                {thumbnailUrl ? (
+                  <img src={thumbnailUrl} alt="" className="w-full aspect-[2/3] object-cover bg-gray-100" />
+                ) : (
+                  <div className="w-full aspect-[2/3] bg-gray-100 flex items-center justify-center text-[10px] text-gray-400 px-1 text-center">Not generated yet</div>
+                )}
+                <span className="px-1.5 py-1 text-xs text-gray-700 line-clamp-2">{pose.instruction}</span>
+              </button>
+              {isPending && (
+                <div className="absolute inset-x-0 top-0 aspect-[2/3] bg-white/60 flex items-center justify-center pointer-events-none rounded-t-md" title="Regenerating for this outfit">
+                  <Spinner />
+                </div>
+              )}
+              <label
+                className="absolute top-1 left-1 flex items-center gap-1 bg-white/80 rounded px-1 py-0.5 text-[10px] font-semibold text-gray-700 cursor-pointer"
+                title="Include in the pose sheet"
+              >
+                <input
+                  type="checkbox"
+                  checked={inSheet}
+                  onChange={() => onToggleSheetPose(pose.instruction)}
+                  className="accent-gray-800 w-3 h-3"
+                />
+                Sheet
+              </label>
+              {pose.source === 'custom' && (
+                <button
+                  onClick={() => onDeletePose(pose.id)}
+                  className="absolute top-1 right-1 p-1 rounded-full bg-white/80 text-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:text-red-600"
+                  aria-label={`Delete pose ${pose.instruction}`}
+                >
+                  <Trash2Icon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          );
+        })}
       </div>
+      <button
+        onClick={onGenerateSheet}
+        disabled={isLoading || missingFromSheet === 0}
+        className="mt-3 flex items-center justify-center gap-2 text-sm font-semibold text-white bg-gray-800 rounded-md px-3 py-2.5 hover:bg-gray-600 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <LayoutGridIcon className="w-4 h-4" />
+        {sheet.length === 0
+          ? 'Pick poses for the sheet'
+          : missingFromSheet === 0
+            ? 'Pose sheet complete'
+            : `Generate Pose Sheet (${missingFromSheet})`}
+      </button>
+      <p className="text-xs text-gray-500 mt-2">Poses you describe on the canvas are saved here automatically.</p>
+      <label className="flex items-start gap-2 mt-3 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={carryPosesOver}
+          onChange={(e) => onCarryPosesOverChange(e.target.checked)}
+          className="accent-gray-800 mt-0.5"
+        />
+        <span>
+          Carry poses over to new garments
+          <span className="block text-xs text-gray-500">Regenerates this outfit's poses in the background after each garment you add.</span>
+        </span>
+      </label>
     </div>
   );
 };
 
-export default PosePanel;
\ No newline at end of file
+export default PosePanel;
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { useCountdown, useQueuedRequest, useRequestQueue } from '../hooks/useRequestQueue';
+
+interface RequestQueueStatusProps {
+  /** The signal the caller's generation was started with; its request is the one described. */
+  signal: AbortSignal | null;
+  onCancel: () => void;
+}
+
+const formatWait = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 90 ? `about ${seconds}s` : `about ${Math.round(seconds / 60)} min`;
+};
+
+// Shown under a loading message: where the caller's generation stands in the
+// request queue, a countdown while it waits to retry, and a way to cancel it.
+const RequestQueueStatus: React.FC<RequestQueueStatusProps> = ({ signal, onCancel }) => {
+  const queue = useRequestQueue();
+  const current = useQueuedRequest(signal);
+  const secondsLeft = useCountdown(current?.status === 'retrying' ? current.retryAt : null);
+
+  const queuedBehind = queue.filter(entry => entry.status === 'queued' && entry.id !== current?.id).length;
+
+  let status: string | null = null;
+  if (current?.status === 'queued') {
+    status = current.estimatedWaitMs !== null
+      ? `Waiting in queue (position ${current.position}, ${formatWait(current.estimatedWaitMs)})`
+      : `Waiting in queue (position ${current.position})`;
+  } else if (current?.status === 'retrying') {
+    status = `Service busy. Retrying in ${secondsLeft ?? 0}s (attempt ${current.attempt} of ${current.maxAttempts})`;
+  } else if (current && current.attempt > 1) {
+    status = `Retrying (attempt ${current.attempt} of ${current.maxAttempts})`;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2 mt-3 text-center px-4">
+      {status && <p className="text-sm text-gray-600">{status}</p>}
+      {queuedBehind > 0 && current?.status !== 'queued' && (
+        <p className="text-xs text-gray-500">{queuedBehind} more {queuedBehind === 1 ? 'request' : 'requests'} waiting</p>
+      )}
+      <button
+        onClick={onCancel}
+        className="mt-1 text-sm font-semibold text-gray-700 bg-white/70 border border-gray-300 rounded-full px-4 py-1.5 hover:bg-white hover:border-gray-400 active:scale-95 transition-all"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default RequestQueueStatus;
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { MAX_CUSTOM_SCENE_LENGTH, SCENE_PRESETS, UPLOADED_SCENE_LABEL } from '../lib/scenes';
+import { ImageIcon } from './icons';
+
+interface ScenePanelProps {
+  isLoading: boolean;
+  /** `label` names the variant; `description` is what the model is asked to render. */
+  onGenerateScene: (label: string, description: string, backgroundImage?: File) => void;
+}
+
+// Puts the current outfit and pose in another setting. Results appear under the canvas.
+const ScenePanel: React.FC<ScenePanelProps> = ({ isLoading, onGenerateScene }) => {
+  const [customScene, setCustomScene] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCustomSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const description = customScene.trim();
+    if (!description) return;
+    onGenerateScene(description, description);
+    setCustomScene('');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError('Please select an image file.');
+      return;
+    }
+    setError(null);
+    onGenerateScene(UPLOADED_SCENE_LABEL, 'The uploaded background photo', file);
+  };
+
+  return (
+    <div className="flex flex-col">
+      <h2 className="text-xl font-serif tracking-wider text-gray-800 border-b border-gray-400/50 pb-2 mb-3">Scene</h2>
+      <div className="grid grid-cols-2 gap-2">
+        {SCENE_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onGenerateScene(preset.label, preset.description)}
+            disabled={isLoading}
+            title={preset.description}
+            className="text-sm font-semibold text-gray-700 bg-gray-100 rounded-md px-3 py-2 text-left hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {preset.label}
+          </button>
+        ))}
+        <label
+          htmlFor="scene-background-upload"
+          className={`flex items-center gap-2 text-sm font-semibold text-gray-700 bg-gray-100 rounded-md px-3 py-2 transition-colors ${isLoading ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-200 cursor-pointer'}`}
+        >
+          <ImageIcon className="w-4 h-4" />
+          Your photo
+        </label>
+        <input id="scene-background-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif" onChange={handleFileChange} disabled={isLoading} />
+      </div>
+      <form onSubmit={handleCustomSubmit} className="flex items-center gap-2 mt-3">
+        <input
+          type="text"
+          value={customScene}
+          onChange={(e) => setCustomScene(e.target.value)}
+          maxLength={MAX_CUSTOM_SCENE_LENGTH}
+          placeholder="Describe a scene, e.g. 'a rooftop at sunset'"
+          className="w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:border-gray-500"
+          disabled={isLoading}
+        />
+        <button
+          type="submit"
+          disabled={isLoading || !customScene.trim()}
+          className="flex-shrink-0 text-sm font-semibold text-white bg-gray-800 rounded-md px-3 py-2 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Place
+        </button>
+      </form>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      <p className="text-xs text-gray-500 mt-2">Scenes keep the current outfit and pose; try-ons always use the original backdrop.</p>
+    </div>
+  );
+};
+
+export default ScenePanel;
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { SessionSummary } from '../types';
+import { PencilIcon, Trash2Icon } from './icons';
+
+interface SessionPickerProps {
+  sessions: SessionSummary[];
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+}
+
+// Gallery of saved models. Each session is one model with its own outfits.
+const SessionPicker: React.FC<SessionPickerProps> = ({ sessions, onSelect, onDelete, onRename }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (sessions.length === 0) return null;
+
+  const startRename = (session: SessionSummary) => {
+    setRenamingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) onRename(renamingId, draftName);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="w-full text-left">
+      <h2 className="text-xl font-serif tracking-wider text-gray-800 mb-3">Your Models</h2>
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className="flex items-center justify-between bg-white/50 p-2 rounded-lg border border-gray-200/80 hover:border-gray-400 transition-colors"
+          >
+            {renamingId === session.id ? (
+              <form
+                className="flex items-center flex-grow overflow-hidden"
+                onSubmit={(e) => { e.preventDefault(); commitRename(); }}
+              >
+                {session.thumbnailUrl ? (
+                  <img src={session.thumbnailUrl} alt="" className="flex-shrink-0 w-12 h-16 object-cover rounded-md mr-3" />
+                ) : (
+                  <div className="flex-shrink-0 w-12 h-16 bg-gray-200 rounded-md mr-3" />
+                )}
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => { if (e.key === 'Escape') setRenamingId(null); }}
+                  maxLength={60}
+                  className="flex-grow min-w-0 text-sm font-semibold border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-gray-800"
+                  aria-label="Model name"
+                />
+              </form>
+            ) : (
+              <button
+                onClick={() => onSelect(session.id)}
+                className="flex items-center flex-grow overflow-hidden text-left"
+                aria-label={`Open ${session.name}`}
+              >
+                {session.thumbnailUrl ? (
+                  <img src={session.thumbnailUrl} alt="" className="flex-shrink-0 w-12 h-16 object-cover rounded-md mr-3" />
+                ) : (
+                  <div className="flex-shrink-0 w-12 h-16 bg-gray-200 rounded-md mr-3" />
+                )}
+                <div className="overflow-hidden">
+                  <p className="font-semibold text-gray-800 truncate">{session.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {session.garmentCount} {session.garmentCount === 1 ? 'garment' : 'garments'} &middot; updated {new Date(session.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+              </button>
+            )}
+            <button
+              onClick={() => startRename(session)}
+              className="flex-shrink-0 text-gray-500 hover:text-gray-800 transition-colors p-2 rounded-md hover:bg-gray-100"
+              aria-label={`Rename ${session.name}`}
+            >
+              <PencilIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDelete(session.id)}
+              className="flex-shrink-0 text-gray-500 hover:text-red-600 transition-colors p-2 rounded-md hover:bg-red-50"
+              aria-label={`Delete ${session.name}`}
+            >
+              <Trash2Icon className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionPicker;
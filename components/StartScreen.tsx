@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { UploadCloudIcon } from './icons';
 import { Compare } from './ui/compare';
@@ -11,36 +11,80 @@ import { generateModelImage, adjustBodyShape } from '../services/geminiService';
 import Spinner from './Spinner';
 import { getFriendlyErrorMessage } from '../lib/utils';
 import BodyAdjustmentPanel from './BodyAdjustmentPanel';
+import RequestQueueStatus from './RequestQueueStatus';
+import { isCancelledError } from '../services/retry';
+import SessionPicker from './SessionPicker';
+import type { BodyAdjustment, GenerationMetadata, ModelCreationSettings, SessionSummary } from '../types';
+import ImageEditor from './ImageEditor';
+import { isNeutralBodyAdjustment, normalizeBodyAdjustment } from '../lib/bodyAdjustments';
+import { DEFAULT_MODEL_CREATION, isModelCreationSettings } from '../lib/modelCreation';
+import ModelCreationModePicker from './ModelCreationModePicker';
+
+interface AppliedBodyAdjustment {
+  adjustment: BodyAdjustment;
+  imageUrl: string;
+  metadata: GenerationMetadata | null;
+}
+
+const NO_ADJUSTMENT: BodyAdjustment = {};
 
 interface StartScreenProps {
-  onModelFinalized: (modelUrl: string) => void;
+  onModelFinalized: (modelUrl: string, creation: ModelCreationSettings, metadata: GenerationMetadata | null) => void;
+  savedSessions: SessionSummary[];
+  onSessionSelect: (id: string) => void;
+  onSessionDelete: (id: string) => void;
+  onSessionRename: (id: string, name: string) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized, savedSessions, onSessionSelect, onSessionDelete, onSessionRename }) => {
   const [userImageUrl, setUserImageUrl] = useState<string | null>(null);
   const [generatedModelUrl, setGeneratedModelUrl] = useState<string | null>(null);
+  const [generatedModelMetadata, setGeneratedModelMetadata] = useState<GenerationMetadata | null>(null);
+  // Undo stack of applied adjustments. Each one is generated from the
+  // unadjusted model, so undoing never compounds edits.
+  const [bodyAdjustments, setBodyAdjustments] = useState<AppliedBodyAdjustment[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isAdjusting, setIsAdjusting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [editingFile, setEditingFile] = useState<File | null>(null);
+  const [modelCreation, setModelCreation] = useState<ModelCreationSettings>(DEFAULT_MODEL_CREATION);
+  // The settings the current model was generated with; the picker may have moved on since.
+  const [generatedWith, setGeneratedWith] = useState<ModelCreationSettings>(DEFAULT_MODEL_CREATION);
+  const requestControllerRef = useRef<AbortController | null>(null);
+  const [requestSignal, setRequestSignal] = useState<AbortSignal | null>(null);
 
-  const handleFileSelect = useCallback(async (file: File) => {
-    if (!file.type.startsWith('image/')) {
-        setError('Please select an image file.');
-        return;
-    }
+  const beginRequest = (): AbortSignal => {
+    requestControllerRef.current?.abort();
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+    setRequestSignal(controller.signal);
+    return controller.signal;
+  };
 
+  const cancelRequest = useCallback(() => {
+    requestControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => () => requestControllerRef.current?.abort(), []);
+
+  const handleFileSelect = useCallback(async (file: File, creation: ModelCreationSettings) => {
     const reader = new FileReader();
     reader.onload = async (e) => {
         const dataUrl = e.target?.result as string;
         setUserImageUrl(dataUrl);
         setIsGenerating(true);
         setGeneratedModelUrl(null);
+        setBodyAdjustments([]);
         setError(null);
         try {
-            const result = await generateModelImage(file);
-            setGeneratedModelUrl(result);
+            const result = await generateModelImage(file, creation, beginRequest());
+            setGeneratedModelUrl(result.imageUrl);
+            setGeneratedModelMetadata(result.metadata);
+            setGeneratedWith(creation);
         } catch (err) {
-            setError(getFriendlyErrorMessage(err, 'Failed to create model'));
+            if (!isCancelledError(err)) {
+                setError(getFriendlyErrorMessage(err, 'Failed to create model'));
+            }
             setUserImageUrl(null);
         } finally {
             setIsGenerating(false);
@@ -49,34 +93,70 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
     reader.readAsDataURL(file);
   }, []);
 
+  // The photo goes through the editor first, so it can be cropped and
+  // straightened before the model is generated from it.
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFileSelect(e.target.files[0]);
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError('Please select an image file.');
+      return;
+    }
+    if (!isModelCreationSettings(modelCreation)) {
+      setError('Describe the look you want, or choose another model style.');
+      return;
     }
+    setError(null);
+    setEditingFile(file);
+  };
+
+  const handleEditorApply = (file: File) => {
+    setEditingFile(null);
+    handleFileSelect(file, modelCreation);
   };
 
   const reset = () => {
+    cancelRequest();
     setUserImageUrl(null);
     setGeneratedModelUrl(null);
+    setBodyAdjustments([]);
     setIsGenerating(false);
     setError(null);
     setIsAdjusting(false);
   };
   
-  const handleBodyAdjustment = useCallback(async (direction: 'more' | 'less') => {
+  const currentAdjustment = bodyAdjustments[bodyAdjustments.length - 1];
+  const modelUrl = currentAdjustment?.imageUrl ?? generatedModelUrl;
+  const modelMetadata = currentAdjustment ? currentAdjustment.metadata : generatedModelMetadata;
+
+  const handleBodyAdjustment = useCallback(async (adjustment: BodyAdjustment) => {
     if (!generatedModelUrl || isGenerating || isAdjusting) return;
 
+    // Back to neutral needs no generation: that is the unadjusted model.
+    if (isNeutralBodyAdjustment(adjustment)) {
+        setBodyAdjustments(prev => [...prev, { adjustment: {}, imageUrl: generatedModelUrl, metadata: generatedModelMetadata }]);
+        return;
+    }
+
     setError(null);
     setIsAdjusting(true);
     try {
-        const newImageUrl = await adjustBodyShape(generatedModelUrl, direction);
-        setGeneratedModelUrl(newImageUrl);
+        const normalized = normalizeBodyAdjustment(adjustment);
+        const { imageUrl, metadata } = await adjustBodyShape(generatedModelUrl, normalized, beginRequest());
+        setBodyAdjustments(prev => [...prev, { adjustment: normalized, imageUrl, metadata }]);
     } catch (err: unknown) {
-        setError(getFriendlyErrorMessage(err, 'Failed to adjust body shape'));
+        if (!isCancelledError(err)) {
+            setError(getFriendlyErrorMessage(err, 'Failed to adjust body shape'));
+        }
     } finally {
         setIsAdjusting(false);
     }
-  }, [generatedModelUrl, isGenerating, isAdjusting]);
+  }, [generatedModelUrl, generatedModelMetadata, isGenerating, isAdjusting]);
+
+  const handleUndoBodyAdjustment = () => {
+    setBodyAdjustments(prev => prev.slice(0, -1));
+  };
 
   const screenVariants = {
     initial: { opacity: 0, x: -20 },
@@ -85,6 +165,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
   };
 
   return (
+    <>
     <AnimatePresence mode="wait">
       {!userImageUrl ? (
         <motion.div
@@ -104,6 +185,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
             </p>
             <hr className="my-8 border-gray-200 w-full" />
             <div className="flex flex-col items-center w-full max-w-xs gap-3">
+              <ModelCreationModePicker value={modelCreation} onChange={setModelCreation} />
               <label htmlFor="image-upload-start" className="w-full relative flex items-center justify-center px-8 py-3 text-base font-semibold text-white bg-gray-900 rounded-md cursor-pointer group hover:bg-gray-700 transition-colors">
                 <UploadCloudIcon className="w-5 h-5 mr-3" />
                 Upload Photo
@@ -111,6 +193,12 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
               <input id="image-upload-start" type="file" className="hidden" accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif" onChange={handleFileChange} />
               {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
             </div>
+            {savedSessions.length > 0 && (
+              <>
+                <hr className="my-8 border-gray-200 w-full" />
+                <SessionPicker sessions={savedSessions} onSelect={onSessionSelect} onDelete={onSessionDelete} onRename={onSessionRename} />
+              </>
+            )}
         </motion.div>
       ) : (
         <motion.div
@@ -133,9 +221,12 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
             </div>
             
             {isGenerating && (
-              <div className="flex items-center gap-3 text-lg text-gray-700 font-serif mt-6">
-                <Spinner />
-                <span>Generating your model...</span>
+              <div className="flex flex-col items-center md:items-start mt-6">
+                <div className="flex items-center gap-3 text-lg text-gray-700 font-serif">
+                  <Spinner />
+                  <span>Generating your model...</span>
+                </div>
+                <RequestQueueStatus signal={requestSignal} onCancel={cancelRequest} />
               </div>
             )}
 
@@ -148,7 +239,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
             }
             
             <AnimatePresence>
-              {generatedModelUrl && !isGenerating && !error && (
+              {modelUrl && !isGenerating && !error && (
                 <motion.div
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -164,14 +255,20 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
                       Use Different Photo
                     </button>
                     <button 
-                      onClick={() => onModelFinalized(generatedModelUrl)}
+                      onClick={() => onModelFinalized(modelUrl, generatedWith, modelMetadata)}
                       className="w-full sm:w-auto flex-1 relative inline-flex items-center justify-center px-8 py-3 text-base font-semibold text-white bg-gray-900 rounded-md cursor-pointer group hover:bg-gray-700 transition-colors"
                     >
                       Proceed to Styling &rarr;
                     </button>
                   </div>
                   <div className="w-full max-w-sm mt-8 border-t border-gray-200 pt-6">
-                    <BodyAdjustmentPanel onAdjustBody={handleBodyAdjustment} isLoading={isAdjusting} />
+                    <BodyAdjustmentPanel
+                      applied={currentAdjustment?.adjustment ?? NO_ADJUSTMENT}
+                      onApply={handleBodyAdjustment}
+                      onUndo={handleUndoBodyAdjustment}
+                      canUndo={bodyAdjustments.length > 0}
+                      isLoading={isAdjusting}
+                    />
                   </div>
                 </motion.div>
               )}
@@ -183,7 +280,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
             >
               <Compare
                 firstImage={userImageUrl}
-                secondImage={generatedModelUrl ?? userImageUrl}
+                secondImage={modelUrl ?? userImageUrl}
                 slideMode="drag"
                 className="w-[280px] h-[420px] sm:w-[320px] sm:h-[480px] lg:w-[400px] lg:h-[600px] rounded-2xl bg-gray-200"
               />
@@ -191,6 +288,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
                   <div className="absolute inset-0 bg-white/60 backdrop-blur-sm flex flex-col items-center justify-center z-10 rounded-2xl">
                       <Spinner />
                       <p className="text-md font-serif text-gray-700 mt-4">Adjusting physique...</p>
+                      <RequestQueueStatus signal={requestSignal} onCancel={cancelRequest} />
                   </div>
               )}
             </div>
@@ -198,6 +296,17 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
         </motion.div>
       )}
     </AnimatePresence>
+    <AnimatePresence>
+      {editingFile && (
+        <ImageEditor
+          file={editingFile}
+          title="Edit Your Photo"
+          onApply={handleEditorApply}
+          onCancel={() => setEditingFile(null)}
+        />
+      )}
+    </AnimatePresence>
+    </>
   );
 };
 
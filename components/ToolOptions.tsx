@@ -2,3 +2,35 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import type { AspectPresetId, ImageEdits } from '../lib/imageEditing';
+import type { EditorTool } from './Toolbar';
+import CropPanel from './CropPanel';
+import AdjustmentPanel from './AdjustmentPanel';
+import FilterPanel from './FilterPanel';
+
+interface ToolOptionsProps {
+  tool: EditorTool;
+  source: ImageBitmap;
+  edits: ImageEdits;
+  aspect: AspectPresetId;
+  onAspectChange: (aspect: AspectPresetId) => void;
+  onRotate: (direction: 'left' | 'right') => void;
+  onFlip: () => void;
+  onResetCrop: () => void;
+  onChange: (changes: Partial<ImageEdits>) => void;
+}
+
+// The settings panel for whichever editor tool is active.
+const ToolOptions: React.FC<ToolOptionsProps> = ({ tool, source, edits, aspect, onAspectChange, onRotate, onFlip, onResetCrop, onChange }) => {
+  switch (tool) {
+    case 'crop':
+      return <CropPanel aspect={aspect} onAspectChange={onAspectChange} onRotate={onRotate} onFlip={onFlip} onResetCrop={onResetCrop} />;
+    case 'adjust':
+      return <AdjustmentPanel edits={edits} onChange={onChange} />;
+    case 'filter':
+      return <FilterPanel source={source} value={edits.filter} onChange={(filter) => onChange({ filter })} />;
+  }
+};
+
+export default ToolOptions;
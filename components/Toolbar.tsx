@@ -2,3 +2,36 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+
+export type EditorTool = 'crop' | 'adjust' | 'filter';
+
+const TOOLS: { id: EditorTool; label: string }[] = [
+  { id: 'crop', label: 'Crop & Rotate' },
+  { id: 'adjust', label: 'Adjust' },
+  { id: 'filter', label: 'Filters' },
+];
+
+interface ToolbarProps {
+  activeTool: EditorTool;
+  onToolChange: (tool: EditorTool) => void;
+}
+
+const Toolbar: React.FC<ToolbarProps> = ({ activeTool, onToolChange }) => (
+  <div className="flex rounded-full border border-gray-300 p-0.5 text-sm font-semibold" role="tablist">
+    {TOOLS.map(tool => (
+      <button
+        key={tool.id}
+        type="button"
+        role="tab"
+        aria-selected={activeTool === tool.id}
+        onClick={() => onToolChange(tool.id)}
+        className={`px-3 py-1 rounded-full transition-colors ${activeTool === tool.id ? 'bg-gray-900 text-white' : 'text-gray-600 hover:text-gray-900'}`}
+      >
+        {tool.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default Toolbar;
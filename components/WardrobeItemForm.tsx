@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { GarmentCategory, WardrobeItem } from '../types';
+import { GARMENT_CATEGORIES, MAX_GARMENT_NAME_LENGTH } from '../wardrobe';
+import { parseTags } from '../services/wardrobeService';
+
+export type WardrobeItemDetails = Pick<WardrobeItem, 'name' | 'category' | 'color' | 'tags'>;
+
+interface WardrobeItemFormProps {
+  title: string;
+  previewUrl: string;
+  initialDetails: WardrobeItemDetails;
+  submitLabel: string;
+  onSubmit: (details: WardrobeItemDetails) => void;
+  secondaryLabel?: string;
+  onSecondarySubmit?: (details: WardrobeItemDetails) => void;
+  onCancel: () => void;
+  onDelete?: () => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full bg-white border border-gray-300 rounded-md px-2 py-1.5 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-800";
+
+const WardrobeItemForm: React.FC<WardrobeItemFormProps> = ({
+  title,
+  previewUrl,
+  initialDetails,
+  submitLabel,
+  onSubmit,
+  secondaryLabel,
+  onSecondarySubmit,
+  onCancel,
+  onDelete,
+  disabled = false,
+}) => {
+  const [name, setName] = useState(initialDetails.name);
+  const [category, setCategory] = useState<GarmentCategory>(initialDetails.category);
+  const [color, setColor] = useState(initialDetails.color);
+  const [tags, setTags] = useState(initialDetails.tags.join(', '));
+
+  const details = (): WardrobeItemDetails => ({
+    name: name.trim() || initialDetails.name,
+    category,
+    color: color.trim(),
+    tags: parseTags(tags),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(details());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-lg p-3 mb-4 animate-fade-in">
+      <p className="text-sm font-semibold text-gray-800 mb-2">{title}</p>
+      <div className="flex gap-3">
+        <img src={previewUrl} alt={name} className="flex-shrink-0 w-20 h-20 object-cover rounded-md border" />
+        <div className="flex-grow grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={MAX_GARMENT_NAME_LENGTH}
+            placeholder="Name"
+            aria-label="Name"
+            className={`${inputClassName} col-span-2`}
+          />
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as GarmentCategory)}
+            aria-label="Category"
+            className={inputClassName}
+          >
+            {GARMENT_CATEGORIES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            placeholder="Color"
+            aria-label="Color"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, comma separated"
+            aria-label="Tags"
+            className={`${inputClassName} col-span-2`}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-end gap-2 mt-3">
+        {onDelete && (
+          <button type="button" onClick={onDelete} disabled={disabled} className="mr-auto text-sm font-semibold text-red-600 hover:underline disabled:opacity-50">
+            Delete
+          </button>
+        )}
+        <button type="button" onClick={onCancel} className="text-sm font-semibold text-gray-600 hover:underline px-2">
+          Cancel
+        </button>
+        {secondaryLabel && onSecondarySubmit && (
+          <button
+            type="button"
+            onClick={() => onSecondarySubmit(details())}
+            disabled={disabled}
+            className="text-sm font-semibold bg-gray-200 text-gray-800 rounded-md px-3 py-1.5 hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {secondaryLabel}
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={disabled}
+          className="text-sm font-semibold bg-gray-800 text-white rounded-md px-3 py-1.5 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default WardrobeItemForm;
@@ -2,61 +2,79 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import type { WardrobeItem } from '../types';
-import { UploadCloudIcon, CheckCircleIcon } from './icons';
+import { UploadCloudIcon, CheckCircleIcon, DotsVerticalIcon, PaletteIcon } from './icons';
+import { GARMENT_CATEGORIES, WARDROBE_SORT_OPTIONS, WardrobeQuery, queryWardrobe } from '../wardrobe';
+import { createWardrobeItemFromFile } from '../services/wardrobeService';
+import WardrobeItemForm, { WardrobeItemDetails } from './WardrobeItemForm';
+import ColorwayGenerator from './ColorwayGenerator';
+import GarmentPreprocessPreview from './GarmentPreprocessPreview';
+import ImageEditor from './ImageEditor';
+import LookBuilder from './LookBuilder';
+import { MAX_LOOK_GARMENTS } from '../lib/outfitTree';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, PreprocessResult, preprocessGarmentImage } from '../lib/imagePreprocessing';
+import { urlToFile } from '../lib/utils';
 
 interface WardrobePanelProps {
   onGarmentSelect: (garmentFile: File, garmentInfo: WardrobeItem) => void;
+  /** Applies several garments at once, in layering order, innermost first. */
+  onApplyLook: (garments: WardrobeItem[]) => void;
+  /** Name of the outfit layer being swapped; the next selection replaces it. */
+  swapTargetName: string | null;
+  onCancelSwap: () => void;
   activeGarmentIds: string[];
   isLoading: boolean;
   wardrobe: WardrobeItem[];
+  onSaveItem: (item: WardrobeItem) => void;
+  onDeleteItem: (id: string) => void;
+  /** Image of the outfit being built, used to suggest matching colorways. */
+  outfitImageUrl: string | null;
 }
 
-// Helper to convert image URL to a File object using a canvas to bypass potential CORS issues.
-const urlToFile = (url: string, filename: string): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        const image = new Image();
-        image.setAttribute('crossOrigin', 'anonymous');
-
-        image.onload = () => {
-            const canvas = document.createElement('canvas');
-            canvas.width = image.naturalWidth;
-            canvas.height = image.naturalHeight;
+interface PendingUpload {
+  file: File;
+  previewUrl: string;
+  options: PreprocessOptions;
+}
 
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                return reject(new Error('Could not get canvas context.'));
-            }
-            ctx.drawImage(image, 0, 0);
-
-            canvas.toBlob((blob) => {
-                if (!blob) {
-                    return reject(new Error('Canvas toBlob failed.'));
-                }
-                const mimeType = blob.type || 'image/png';
-                const file = new File([blob], filename, { type: mimeType });
-                resolve(file);
-            }, 'image/png');
-        };
-
-        image.onerror = (error) => {
-            reject(new Error(`Could not load image from URL for canvas conversion. Error: ${error}`));
-        };
-
-        image.src = url;
-    });
-};
+interface ProcessedUpload {
+  result: PreprocessResult;
+  previewUrl: string;
+}
 
-const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGarmentIds, isLoading, wardrobe }) => {
+const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, onApplyLook, swapTargetName, onCancelSwap, activeGarmentIds, isLoading, wardrobe, onSaveItem, onDeleteItem, outfitImageUrl }) => {
     const [error, setError] = useState<string | null>(null);
+    const [query, setQuery] = useState<WardrobeQuery>({ search: '', category: 'all', sort: 'newest' });
+    const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+    const [processedUpload, setProcessedUpload] = useState<ProcessedUpload | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [editingItem, setEditingItem] = useState<WardrobeItem | null>(null);
+    const [colorwayItem, setColorwayItem] = useState<WardrobeItem | null>(null);
+    const [isEditingPhoto, setIsEditingPhoto] = useState(false);
+    // Garments picked for a look, in layering order; null when not building one.
+    const [look, setLook] = useState<WardrobeItem[] | null>(null);
+
+    // Choosing a layer to swap takes over garment clicks from a look being built.
+    useEffect(() => {
+        if (swapTargetName) setLook(null);
+    }, [swapTargetName]);
+
+    const visibleItems = useMemo(() => queryWardrobe(wardrobe, query), [wardrobe, query]);
 
     const handleGarmentClick = async (item: WardrobeItem) => {
         if (isLoading || activeGarmentIds.includes(item.id)) return;
         setError(null);
+        if (look) {
+            if (look.some(picked => picked.id === item.id)) {
+                setLook(look.filter(picked => picked.id !== item.id));
+            } else if (look.length < MAX_LOOK_GARMENTS) {
+                setLook([...look, item]);
+            }
+            return;
+        }
         try {
-            // If the item was from an upload, its URL is a blob URL. We need to fetch it to create a file.
-            // If it was a default item, it's a regular URL. This handles both.
+            // Stored items are data URLs and default items are regular URLs. This handles both.
             const file = await urlToFile(item.url, item.name);
             onGarmentSelect(file, item);
         } catch (err) {
@@ -66,46 +84,270 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGa
         }
     };
 
+    const clearPendingUpload = () => setPendingUpload(null);
+
+    // Clean up the pending upload locally (orientation, size, crop, background)
+    // and re-run whenever its options change. Stale runs are discarded.
+    useEffect(() => {
+        if (!pendingUpload) {
+            setProcessedUpload(null);
+            return;
+        }
+        let cancelled = false;
+        setIsProcessing(true);
+        preprocessGarmentImage(pendingUpload.file, pendingUpload.options)
+            .then(result => {
+                if (cancelled) return;
+                setProcessedUpload({ result, previewUrl: URL.createObjectURL(result.file) });
+            })
+            .catch(err => {
+                if (cancelled) return;
+                // The original file is still usable; fall back to it.
+                console.error('Failed to preprocess garment image', err);
+                setProcessedUpload(null);
+            })
+            .finally(() => { if (!cancelled) setIsProcessing(false); });
+        return () => { cancelled = true; };
+    }, [pendingUpload]);
+
+    // Previews stay on screen until their replacement is rendered, so each URL
+    // is revoked only once the state has moved on from it, or on unmount.
+    useEffect(() => {
+        if (!processedUpload) return;
+        return () => URL.revokeObjectURL(processedUpload.previewUrl);
+    }, [processedUpload]);
+
+    const pendingPreviewUrl = pendingUpload?.previewUrl;
+    useEffect(() => {
+        if (!pendingPreviewUrl) return;
+        return () => URL.revokeObjectURL(pendingPreviewUrl);
+    }, [pendingPreviewUrl]);
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             const file = e.target.files[0];
+            e.target.value = '';
             if (!file.type.startsWith('image/')) {
                 setError('Please select an image file.');
                 return;
             }
-            const customGarmentInfo: WardrobeItem = {
-                id: `custom-${Date.now()}`,
-                name: file.name,
-                url: URL.createObjectURL(file),
-            };
-            onGarmentSelect(file, customGarmentInfo);
+            setError(null);
+            setEditingItem(null);
+            setColorwayItem(null);
+            clearPendingUpload();
+            setPendingUpload({ file, previewUrl: URL.createObjectURL(file), options: DEFAULT_PREPROCESS_OPTIONS });
+        }
+    };
+
+    // An edited photo replaces the pending upload's original, so the clean-up
+    // above runs again on the edited version.
+    const handlePhotoEdited = (file: File) => {
+        setIsEditingPhoto(false);
+        if (!pendingUpload || file === pendingUpload.file) return;
+        setPendingUpload({ ...pendingUpload, file, previewUrl: URL.createObjectURL(file) });
+    };
+
+    const handleUploadSubmit = async (details: WardrobeItemDetails, tryOn: boolean) => {
+        if (!pendingUpload || isProcessing) return;
+        const file = processedUpload?.result.file ?? pendingUpload.file;
+        try {
+            const item = await createWardrobeItemFromFile(file, details);
+            onSaveItem(item);
+            clearPendingUpload();
+            if (tryOn) {
+                onGarmentSelect(file, item);
+            }
+        } catch (err) {
+            setError('Could not read the uploaded image. Please try another file.');
+            console.error('Failed to create wardrobe item from upload', err);
         }
     };
 
+    const handleApplyLook = () => {
+        if (!look || look.length < 2) return;
+        onApplyLook(look);
+        setLook(null);
+    };
+
+    const handleEditSubmit = (details: WardrobeItemDetails) => {
+        if (!editingItem) return;
+        onSaveItem({ ...editingItem, ...details });
+        setEditingItem(null);
+    };
+
+    const handleDelete = () => {
+        if (!editingItem) return;
+        onDeleteItem(editingItem.id);
+        setEditingItem(null);
+    };
+
   return (
     <div className="pt-6 border-t border-gray-400/50">
-        <h2 className="text-xl font-serif tracking-wider text-gray-800 mb-3">Wardrobe</h2>
+        <div className="flex items-baseline justify-between mb-3">
+            <h2 className="text-xl font-serif tracking-wider text-gray-800">Wardrobe</h2>
+            {wardrobe.length > 0 && (
+                <span className="text-xs text-gray-500">{visibleItems.length} of {wardrobe.length}</span>
+            )}
+        </div>
+
+        {look ? (
+            <LookBuilder
+                garments={look}
+                isLoading={isLoading}
+                onReorder={setLook}
+                onApply={handleApplyLook}
+                onCancel={() => setLook(null)}
+            />
+        ) : wardrobe.length > 1 && !swapTargetName && (
+            <button
+                onClick={() => setLook([])}
+                disabled={isLoading}
+                className="w-full mb-4 text-sm font-semibold text-gray-700 bg-white/70 border border-gray-300 rounded-full px-3 py-2 hover:bg-white hover:border-gray-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                Build a look
+            </button>
+        )}
+
+        {swapTargetName && (
+            <div className="flex items-center justify-between bg-gray-800 text-white text-sm rounded-lg px-3 py-2 mb-4">
+                <span className="truncate">Choose a garment to replace <strong>{swapTargetName}</strong></span>
+                <button onClick={onCancelSwap} className="flex-shrink-0 ml-3 font-semibold hover:underline">Cancel</button>
+            </div>
+        )}
+
+        {pendingUpload && (
+            <GarmentPreprocessPreview
+                originalUrl={pendingUpload.previewUrl}
+                processedUrl={processedUpload?.previewUrl ?? null}
+                result={processedUpload?.result ?? null}
+                options={pendingUpload.options}
+                onOptionsChange={(options) => setPendingUpload({ ...pendingUpload, options })}
+                isProcessing={isProcessing}
+                onEditPhoto={() => setIsEditingPhoto(true)}
+            />
+        )}
+
+        {pendingUpload && (
+            <WardrobeItemForm
+                key={pendingUpload.previewUrl}
+                title="New garment"
+                previewUrl={processedUpload?.previewUrl ?? pendingUpload.previewUrl}
+                initialDetails={{ name: pendingUpload.file.name.replace(/\.[^.]+$/, ''), category: 'top', color: '', tags: [] }}
+                submitLabel="Add & Try On"
+                onSubmit={(details) => handleUploadSubmit(details, true)}
+                secondaryLabel="Add to Wardrobe"
+                onSecondarySubmit={(details) => handleUploadSubmit(details, false)}
+                onCancel={clearPendingUpload}
+                disabled={isLoading || isProcessing}
+            />
+        )}
+
+        {editingItem && (
+            <WardrobeItemForm
+                key={editingItem.id}
+                title="Edit garment"
+                previewUrl={editingItem.url}
+                initialDetails={editingItem}
+                submitLabel="Save"
+                onSubmit={handleEditSubmit}
+                onCancel={() => setEditingItem(null)}
+                onDelete={activeGarmentIds.includes(editingItem.id) ? undefined : handleDelete}
+            />
+        )}
+
+        {colorwayItem && (
+            <ColorwayGenerator
+                key={colorwayItem.id}
+                item={colorwayItem}
+                outfitImageUrl={outfitImageUrl}
+                variants={wardrobe.filter(item => item.colorwayOf === (colorwayItem.colorwayOf ?? colorwayItem.id))}
+                disabled={isLoading}
+                onCreate={onSaveItem}
+                onTryOn={handleGarmentClick}
+                onClose={() => setColorwayItem(null)}
+            />
+        )}
+
+        {wardrobe.length > 0 && (
+            <div className="flex flex-col gap-2 mb-3">
+                <div className="flex gap-2">
+                    <input
+                        type="search"
+                        value={query.search}
+                        onChange={(e) => setQuery(q => ({ ...q, search: e.target.value }))}
+                        placeholder="Search name, color or tag"
+                        aria-label="Search wardrobe"
+                        className="flex-grow min-w-0 bg-white border border-gray-300 rounded-md px-2 py-1.5 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-800"
+                    />
+                    <select
+                        value={query.sort}
+                        onChange={(e) => setQuery(q => ({ ...q, sort: e.target.value as WardrobeQuery['sort'] }))}
+                        aria-label="Sort wardrobe"
+                        className="bg-white border border-gray-300 rounded-md px-2 py-1.5 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-800"
+                    >
+                        {WARDROBE_SORT_OPTIONS.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                    {[{ value: 'all' as const, label: 'All' }, ...GARMENT_CATEGORIES].map(({ value, label }) => (
+                        <button
+                            key={value}
+                            onClick={() => setQuery(q => ({ ...q, category: value }))}
+                            className={`text-xs font-semibold rounded-full px-3 py-1 border transition-colors ${query.category === value ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-600 border-gray-300 hover:border-gray-400'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
+
         <div className="grid grid-cols-3 gap-3">
-            {wardrobe.map((item) => {
+            {visibleItems.map((item) => {
             const isActive = activeGarmentIds.includes(item.id);
+            const lookPosition = look ? look.findIndex(picked => picked.id === item.id) : -1;
             return (
-                <button
-                key={item.id}
-                onClick={() => handleGarmentClick(item)}
-                disabled={isLoading || isActive}
-                className="relative aspect-square border rounded-lg overflow-hidden transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-800 group disabled:opacity-60 disabled:cursor-not-allowed"
-                aria-label={`Select ${item.name}`}
-                >
-                <img src={item.url} alt={item.name} className="w-full h-full object-cover" />
-                <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                    <p className="text-white text-xs font-bold text-center p-1">{item.name}</p>
-                </div>
-                {isActive && (
-                    <div className="absolute inset-0 bg-gray-900/70 flex items-center justify-center">
-                        <CheckCircleIcon className="w-8 h-8 text-white" />
+                <div key={item.id} className="relative group">
+                    <button
+                    onClick={() => handleGarmentClick(item)}
+                    disabled={isLoading || isActive}
+                    className="relative w-full aspect-square border rounded-lg overflow-hidden transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-800 disabled:opacity-60 disabled:cursor-not-allowed"
+                    aria-label={`Select ${item.name}`}
+                    >
+                    <img src={item.url} alt={item.name} loading="lazy" className="w-full h-full object-cover" />
+                    <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <p className="text-white text-xs font-bold text-center p-1">{item.name}</p>
+                        {item.color && <p className="text-white/80 text-[10px] text-center">{item.color}</p>}
                     </div>
-                )}
-                </button>
+                    {isActive && (
+                        <div className="absolute inset-0 bg-gray-900/70 flex items-center justify-center">
+                            <CheckCircleIcon className="w-8 h-8 text-white" />
+                        </div>
+                    )}
+                    {lookPosition >= 0 && (
+                        <div className="absolute inset-0 ring-2 ring-inset ring-gray-800 rounded-lg flex items-end justify-end p-1">
+                            <span className="w-6 h-6 rounded-full bg-gray-800 text-white text-xs font-bold flex items-center justify-center">{lookPosition + 1}</span>
+                        </div>
+                    )}
+                    </button>
+                    <button
+                        onClick={() => { clearPendingUpload(); setColorwayItem(null); setEditingItem(item); }}
+                        className="absolute top-1 right-1 p-1 rounded-full bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:bg-white"
+                        aria-label={`Edit ${item.name}`}
+                    >
+                        <DotsVerticalIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => { clearPendingUpload(); setEditingItem(null); setColorwayItem(item); }}
+                        className="absolute top-1 left-1 p-1 rounded-full bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:bg-white"
+                        aria-label={`Create colorways of ${item.name}`}
+                        title="Colorways"
+                    >
+                        <PaletteIcon className="w-4 h-4" />
+                    </button>
+                </div>
             );
             })}
             <label htmlFor="custom-garment-upload" className={`relative aspect-square border-2 border-dashed rounded-lg flex flex-col items-center justify-center text-gray-500 transition-colors ${isLoading ? 'cursor-not-allowed bg-gray-100' : 'hover:border-gray-400 hover:text-gray-600 cursor-pointer'}`}>
@@ -117,7 +359,18 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGa
         {wardrobe.length === 0 && (
              <p className="text-center text-sm text-gray-500 mt-4">Your uploaded garments will appear here.</p>
         )}
+        {wardrobe.length > 0 && visibleItems.length === 0 && (
+             <p className="text-center text-sm text-gray-500 mt-4">No garments match your filters.</p>
+        )}
         {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+        {isEditingPhoto && pendingUpload && (
+            <ImageEditor
+                file={pendingUpload.file}
+                title="Edit Garment Photo"
+                onApply={handlePhotoEdited}
+                onCancel={() => setIsEditingPhoto(false)}
+            />
+        )}
     </div>
   );
 };
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { requestQueue } from '../services/geminiService';
+import type { QueueEntry } from '../services/requestQueue';
+
+/** Live view of the generation request queue. */
+export const useRequestQueue = (): QueueEntry[] =>
+  useSyncExternalStore(requestQueue.subscribe, requestQueue.getSnapshot);
+
+/** Live view of the caller's own request, found by the signal it was enqueued with. */
+export const useQueuedRequest = (signal: AbortSignal | null): QueueEntry | undefined =>
+  useSyncExternalStore(requestQueue.subscribe, () => signal ? requestQueue.findRequest(signal) : undefined);
+
+/** Whole seconds until `timestamp`, updated every second; null when there is no timestamp. */
+export const useCountdown = (timestamp: number | null): number | null => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (timestamp === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timestamp]);
+
+  return timestamp === null ? null : Math.max(0, Math.ceil((timestamp - now) / 1000));
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BodyAdjustment, BodyAttribute } from '../types';
+
+/** Sliders run from -MAX_BODY_STEP to +MAX_BODY_STEP in whole steps. */
+export const MAX_BODY_STEP = 2;
+
+export const BODY_ATTRIBUTES: { id: BodyAttribute; label: string; lower: string; higher: string }[] = [
+  { id: 'height', label: 'Height impression', lower: 'shorter', higher: 'taller' },
+  { id: 'shoulders', label: 'Shoulder width', lower: 'narrower', higher: 'broader' },
+  { id: 'build', label: 'Build', lower: 'slimmer', higher: 'fuller' },
+  { id: 'muscleTone', label: 'Muscle tone', lower: 'softer', higher: 'more defined' },
+  { id: 'posture', label: 'Posture', lower: 'more relaxed', higher: 'more upright' },
+];
+
+const STEP_INTENSITY = ['', 'slightly', 'noticeably'];
+
+/** Drops zero steps so equal adjustments compare equal regardless of how they were built. */
+export const normalizeBodyAdjustment = (adjustment: BodyAdjustment): BodyAdjustment => {
+  const normalized: BodyAdjustment = {};
+  for (const { id } of BODY_ATTRIBUTES) {
+    const step = adjustment[id];
+    if (step) normalized[id] = step;
+  }
+  return normalized;
+};
+
+export const isNeutralBodyAdjustment = (adjustment: BodyAdjustment): boolean =>
+  Object.keys(normalizeBodyAdjustment(adjustment)).length === 0;
+
+export const bodyAdjustmentsEqual = (a: BodyAdjustment, b: BodyAdjustment): boolean =>
+  BODY_ATTRIBUTES.every(({ id }) => (a[id] ?? 0) === (b[id] ?? 0));
+
+/** True for an object whose keys are known attributes with whole steps in range. */
+export const isBodyAdjustment = (value: unknown): value is BodyAdjustment => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([key, step]) =>
+    BODY_ATTRIBUTES.some(attribute => attribute.id === key) &&
+    Number.isInteger(step) &&
+    Math.abs(step as number) <= MAX_BODY_STEP,
+  );
+};
+
+/** One phrase per changed attribute, e.g. "Shoulder width: slightly broader". */
+export const describeBodyAdjustment = (adjustment: BodyAdjustment): string[] =>
+  BODY_ATTRIBUTES.flatMap(({ id, label, lower, higher }) => {
+    const step = adjustment[id] ?? 0;
+    if (step === 0) return [];
+    return [`${label}: ${STEP_INTENSITY[Math.abs(step)]} ${step > 0 ? higher : lower}`];
+  });
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ColorSwatch } from '../types';
+
+type Rgb = [number, number, number];
+
+export const COLORWAY_PALETTES: { name: string; colors: ColorSwatch[] }[] = [
+  {
+    name: 'Neutrals',
+    colors: [
+      { name: 'black', hex: '#111111' },
+      { name: 'charcoal', hex: '#36454f' },
+      { name: 'stone', hex: '#a8a29e' },
+      { name: 'off-white', hex: '#f5f1e8' },
+      { name: 'camel', hex: '#c19a6b' },
+    ],
+  },
+  {
+    name: 'Earth',
+    colors: [
+      { name: 'olive', hex: '#6b7033' },
+      { name: 'rust', hex: '#b7410e' },
+      { name: 'terracotta', hex: '#c9714f' },
+      { name: 'chocolate', hex: '#5c3a21' },
+      { name: 'sage', hex: '#9caf88' },
+    ],
+  },
+  {
+    name: 'Jewel tones',
+    colors: [
+      { name: 'emerald', hex: '#046307' },
+      { name: 'sapphire', hex: '#0f52ba' },
+      { name: 'burgundy', hex: '#800020' },
+      { name: 'amethyst', hex: '#6a3d9a' },
+      { name: 'teal', hex: '#00707a' },
+    ],
+  },
+  {
+    name: 'Pastels',
+    colors: [
+      { name: 'blush', hex: '#f4c2c2' },
+      { name: 'powder blue', hex: '#b0d0e8' },
+      { name: 'mint', hex: '#bde5c8' },
+      { name: 'lavender', hex: '#d3c4e8' },
+      { name: 'butter yellow', hex: '#f6e7a1' },
+    ],
+  },
+];
+
+// Reference colors for naming arbitrary picks, e.g. from the color picker.
+const NAMED_COLORS: ColorSwatch[] = [
+  ...COLORWAY_PALETTES.flatMap(palette => palette.colors),
+  { name: 'white', hex: '#ffffff' },
+  { name: 'grey', hex: '#808080' },
+  { name: 'navy', hex: '#1f2a44' },
+  { name: 'blue', hex: '#2563eb' },
+  { name: 'sky blue', hex: '#7dd3fc' },
+  { name: 'red', hex: '#dc2626' },
+  { name: 'pink', hex: '#ec4899' },
+  { name: 'orange', hex: '#f97316' },
+  { name: 'yellow', hex: '#facc15' },
+  { name: 'green', hex: '#16a34a' },
+  { name: 'purple', hex: '#7c3aed' },
+  { name: 'brown', hex: '#8b5a2b' },
+  { name: 'beige', hex: '#e8dcc4' },
+];
+
+const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+const rgbToHex = ([r, g, b]: Rgb) =>
+  `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+export const isHexColor = (value: string): boolean => /^#[0-9a-f]{6}$/i.test(value);
+
+/** The closest named color, used to label picker colors in names and prompts. */
+export const nameForHex = (hex: string): string => {
+  const rgb = hexToRgb(hex);
+  return NAMED_COLORS.reduce((best, color) =>
+    distance(hexToRgb(color.hex), rgb) < distance(hexToRgb(best.hex), rgb) ? color : best
+  ).name;
+};
+
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 96;
+const MIN_COLOR_DISTANCE = 48;
+
+/**
+ * The dominant colors of an image, most common first. Pixels close to the
+ * color along the image border are treated as background and skipped, so for
+ * an outfit photo the result is mostly the clothing.
+ */
+export const extractPalette = (imageUrl: string, count = 5): Promise<ColorSwatch[]> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.setAttribute('crossOrigin', 'anonymous');
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = SAMPLE_WIDTH;
+      canvas.height = SAMPLE_HEIGHT;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        return reject(new Error('Could not get canvas context.'));
+      }
+      ctx.drawImage(image, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      const pixel = (x: number, y: number): Rgb => {
+        const i = (y * SAMPLE_WIDTH + x) * 4;
+        return [data[i], data[i + 1], data[i + 2]];
+      };
+
+      const border: Rgb[] = [];
+      for (let x = 0; x < SAMPLE_WIDTH; x++) border.push(pixel(x, 0), pixel(x, SAMPLE_HEIGHT - 1));
+      for (let y = 0; y < SAMPLE_HEIGHT; y++) border.push(pixel(0, y), pixel(SAMPLE_WIDTH - 1, y));
+      const background = border.reduce<Rgb>((sum, c) => [sum[0] + c[0], sum[1] + c[1], sum[2] + c[2]], [0, 0, 0])
+        .map(channel => channel / border.length) as Rgb;
+
+      // Bucket by the top 4 bits of each channel and average within buckets.
+      const buckets = new Map<number, { sum: Rgb; count: number }>();
+      for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+        for (let x = 0; x < SAMPLE_WIDTH; x++) {
+          const c = pixel(x, y);
+          if (distance(c, background) < MIN_COLOR_DISTANCE) continue;
+          const key = ((c[0] >> 4) << 8) | ((c[1] >> 4) << 4) | (c[2] >> 4);
+          const bucket = buckets.get(key) ?? { sum: [0, 0, 0], count: 0 };
+          bucket.sum = [bucket.sum[0] + c[0], bucket.sum[1] + c[1], bucket.sum[2] + c[2]];
+          bucket.count++;
+          buckets.set(key, bucket);
+        }
+      }
+
+      const palette: Rgb[] = [];
+      const ranked = Array.from(buckets.values()).sort((a, b) => b.count - a.count);
+      for (const { sum, count: n } of ranked) {
+        const color: Rgb = [sum[0] / n, sum[1] / n, sum[2] / n];
+        if (palette.every(existing => distance(existing, color) >= MIN_COLOR_DISTANCE)) {
+          palette.push(color);
+          if (palette.length === count) break;
+        }
+      }
+      resolve(palette.map(rgb => {
+        const hex = rgbToHex(rgb);
+        return { name: nameForHex(hex), hex };
+      }));
+    };
+    image.onerror = () => reject(new Error('Could not load the outfit image.'));
+    image.src = imageUrl;
+  });
+};
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Generated model shots are full length, so the head and shoulders sit in the
+// top centre of the frame. Fractions of the image size.
+const IDENTITY_REGION = { x: 0.25, y: 0, width: 0.5, height: 0.3 };
+const HASH_SIZE = 16;
+
+/**
+ * Share of differing hash bits above which a layer is flagged. Unrelated
+ * images differ in about half their bits; re-renders of the same person in a
+ * new garment stay well under this in practice.
+ */
+export const DRIFT_THRESHOLD = 0.25;
+
+/**
+ * A difference hash of the head-and-shoulders region: the region is shrunk to
+ * a 17x16 grayscale grid and each bit records whether a pixel is brighter than
+ * its right-hand neighbour. Small changes in lighting or compression barely
+ * move it, while a different face or build does.
+ */
+export const computeIdentityHash = (imageUrl: string): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.setAttribute('crossOrigin', 'anonymous');
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = HASH_SIZE + 1;
+      canvas.height = HASH_SIZE;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        return reject(new Error('Could not get canvas context.'));
+      }
+      ctx.drawImage(
+        image,
+        image.naturalWidth * IDENTITY_REGION.x,
+        image.naturalHeight * IDENTITY_REGION.y,
+        image.naturalWidth * IDENTITY_REGION.width,
+        image.naturalHeight * IDENTITY_REGION.height,
+        0, 0, HASH_SIZE + 1, HASH_SIZE,
+      );
+      const { data } = ctx.getImageData(0, 0, HASH_SIZE + 1, HASH_SIZE);
+      const luminance = (x: number, y: number) => {
+        const i = (y * (HASH_SIZE + 1) + x) * 4;
+        return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      };
+      const bits = new Uint8Array(HASH_SIZE * HASH_SIZE);
+      for (let y = 0; y < HASH_SIZE; y++) {
+        for (let x = 0; x < HASH_SIZE; x++) {
+          bits[y * HASH_SIZE + x] = luminance(x, y) > luminance(x + 1, y) ? 1 : 0;
+        }
+      }
+      resolve(bits);
+    };
+    image.onerror = () => reject(new Error('Failed to load image for the identity check.'));
+    image.src = imageUrl;
+  });
+};
+
+/** Share of bits that differ between two identity hashes, from 0 (same) to 1. */
+export const hashDistance = (a: Uint8Array, b: Uint8Array): number => {
+  let differing = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) differing++;
+  }
+  return differing / a.length;
+};
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Non-destructive edits for photos before upload: rotate, flip, crop, tone
+// adjustments and filters. Colour changes are applied as a single composed
+// colour matrix on the pixels rather than through `ctx.filter`, so the preview
+// and the exported file look the same in every browser.
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/** Crop rectangle as fractions of the rotated image. */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type ImageFilterId = 'none' | 'mono' | 'warm' | 'cool' | 'vivid' | 'fade';
+
+export interface ImageEdits {
+    rotation: Rotation;
+    flipHorizontal: boolean;
+    crop: CropRect;
+    /** -100 to 100, 0 is unchanged. */
+    brightness: number;
+    contrast: number;
+    saturation: number;
+    filter: ImageFilterId;
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_IMAGE_EDITS: ImageEdits = {
+    rotation: 0,
+    flipHorizontal: false,
+    crop: FULL_CROP,
+    brightness: 0,
+    contrast: 0,
+    saturation: 0,
+    filter: 'none',
+};
+
+export type AspectPresetId = 'free' | '1:1' | '3:4' | '2:3' | '9:16' | '4:3';
+
+export const ASPECT_PRESETS: { id: AspectPresetId; label: string; ratio: number | null }[] = [
+    { id: 'free', label: 'Free', ratio: null },
+    { id: '1:1', label: '1:1', ratio: 1 },
+    { id: '3:4', label: '3:4', ratio: 3 / 4 },
+    { id: '2:3', label: '2:3', ratio: 2 / 3 },
+    { id: '9:16', label: '9:16', ratio: 9 / 16 },
+    { id: '4:3', label: '4:3', ratio: 4 / 3 },
+];
+
+// 3x4 row-major colour matrix: each output channel is a weighted sum of the
+// input channels plus an offset (0-255 scale).
+type ColorMatrix = number[];
+
+const IDENTITY: ColorMatrix = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0];
+
+const saturationMatrix = (s: number): ColorMatrix => {
+    const r = 0.2126 * (1 - s), g = 0.7152 * (1 - s), b = 0.0722 * (1 - s);
+    return [r + s, g, b, 0, r, g + s, b, 0, r, g, b + s, 0];
+};
+
+const scaleMatrix = (r: number, g: number, b: number, offset = 0): ColorMatrix =>
+    [r, 0, 0, offset, 0, g, 0, offset, 0, 0, b, offset];
+
+/** `a` applied after `b`. */
+const multiply = (a: ColorMatrix, b: ColorMatrix): ColorMatrix => {
+    const out: number[] = [];
+    for (let row = 0; row < 3; row++) {
+        for (let col = 0; col < 4; col++) {
+            let value = col === 3 ? a[row * 4 + 3] : 0;
+            for (let k = 0; k < 3; k++) value += a[row * 4 + k] * b[k * 4 + col];
+            out.push(value);
+        }
+    }
+    return out;
+};
+
+export const IMAGE_FILTERS: { id: ImageFilterId; label: string; matrix: ColorMatrix }[] = [
+    { id: 'none', label: 'Original', matrix: IDENTITY },
+    { id: 'mono', label: 'Mono', matrix: saturationMatrix(0) },
+    { id: 'warm', label: 'Warm', matrix: scaleMatrix(1.08, 1.0, 0.88, 4) },
+    { id: 'cool', label: 'Cool', matrix: scaleMatrix(0.9, 1.0, 1.1) },
+    { id: 'vivid', label: 'Vivid', matrix: multiply(scaleMatrix(1.1, 1.1, 1.1, -12.8), saturationMatrix(1.35)) },
+    { id: 'fade', label: 'Fade', matrix: multiply(scaleMatrix(0.8, 0.8, 0.8, 30), saturationMatrix(0.8)) },
+];
+
+const buildColorMatrix = ({ brightness, contrast, saturation, filter }: ImageEdits): ColorMatrix => {
+    const b = 1 + brightness / 100;
+    const c = 1 + contrast / 100;
+    let matrix = scaleMatrix(b, b, b);
+    matrix = multiply(scaleMatrix(c, c, c, 128 * (1 - c)), matrix);
+    matrix = multiply(saturationMatrix(1 + saturation / 100), matrix);
+    const filterMatrix = IMAGE_FILTERS.find(f => f.id === filter)?.matrix ?? IDENTITY;
+    return multiply(filterMatrix, matrix);
+};
+
+const applyColorMatrix = (data: Uint8ClampedArray, m: ColorMatrix) => {
+    if (m.every((v, i) => v === IDENTITY[i])) return;
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        data[i] = m[0] * r + m[1] * g + m[2] * b + m[3];
+        data[i + 1] = m[4] * r + m[5] * g + m[6] * b + m[7];
+        data[i + 2] = m[8] * r + m[9] * g + m[10] * b + m[11];
+    }
+};
+
+/** Size of the image after rotation. */
+export const rotatedSize = (width: number, height: number, rotation: Rotation) =>
+    rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * The largest crop of the given aspect ratio (width / height, in pixels) that
+ * fits inside `crop`, centred on it.
+ */
+export const fitCropToAspect = (crop: CropRect, ratio: number, imageWidth: number, imageHeight: number): CropRect => {
+    const cropWidthPx = crop.width * imageWidth;
+    const cropHeightPx = crop.height * imageHeight;
+    let width = cropWidthPx;
+    let height = width / ratio;
+    if (height > cropHeightPx) {
+        height = cropHeightPx;
+        width = height * ratio;
+    }
+    return {
+        x: crop.x + (crop.width - width / imageWidth) / 2,
+        y: crop.y + (crop.height - height / imageHeight) / 2,
+        width: width / imageWidth,
+        height: height / imageHeight,
+    };
+};
+
+/**
+ * Draws `source` with the edits applied. `scale` shrinks the output (for
+ * previews); with `includeCrop` false the whole rotated image is drawn so a
+ * crop overlay can be shown on top of it.
+ */
+export const renderEditedImage = (
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    edits: ImageEdits,
+    { scale = 1, includeCrop = true }: { scale?: number; includeCrop?: boolean } = {},
+): HTMLCanvasElement => {
+    const rotated = rotatedSize(sourceWidth, sourceHeight, edits.rotation);
+    const crop = includeCrop ? edits.crop : FULL_CROP;
+    const outWidth = Math.max(1, Math.round(rotated.width * crop.width * scale));
+    const outHeight = Math.max(1, Math.round(rotated.height * crop.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = outWidth;
+    canvas.height = outHeight;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context.');
+    }
+
+    ctx.save();
+    ctx.scale(scale, scale);
+    ctx.translate(-crop.x * rotated.width, -crop.y * rotated.height);
+    ctx.translate(rotated.width / 2, rotated.height / 2);
+    // Flip before rotating, so the mirror is always across the output's
+    // vertical axis, i.e. left-right as the user sees the rotated image.
+    if (edits.flipHorizontal) ctx.scale(-1, 1);
+    ctx.rotate((edits.rotation * Math.PI) / 180);
+    ctx.drawImage(source, -sourceWidth / 2, -sourceHeight / 2, sourceWidth, sourceHeight);
+    ctx.restore();
+
+    const image = ctx.getImageData(0, 0, outWidth, outHeight);
+    applyColorMatrix(image.data, buildColorMatrix(edits));
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+};
+
+export const hasImageEdits = (edits: ImageEdits): boolean =>
+    JSON.stringify(edits) !== JSON.stringify(DEFAULT_IMAGE_EDITS);
+
+/** Decodes a file upright, applying its EXIF orientation. */
+export const decodeImageFile = (file: File): Promise<ImageBitmap> =>
+    createImageBitmap(file, { imageOrientation: 'from-image' });
+
+/** Renders the edits at full resolution into a new file of the same type where possible. */
+export const applyImageEdits = async (file: File, edits: ImageEdits): Promise<File> => {
+    if (!hasImageEdits(edits)) return file;
+    const bitmap = await decodeImageFile(file);
+    try {
+        const canvas = renderEditedImage(bitmap, bitmap.width, bitmap.height, edits);
+        const type = file.type === 'image/png' || file.type === 'image/webp' ? 'image/png' : 'image/jpeg';
+        return await new Promise<File>((resolve, reject) => {
+            canvas.toBlob((blob) => {
+                if (!blob) {
+                    return reject(new Error('Canvas toBlob failed.'));
+                }
+                const extension = type === 'image/png' ? 'png' : 'jpg';
+                resolve(new File([blob], `${file.name.replace(/\.[^.]+$/, '')}.${extension}`, { type }));
+            }, type, 0.92);
+        });
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Local clean-up for garment photos before they are stored or sent for
+// generation: EXIF orientation, downscaling, cropping to the garment and,
+// optionally, removing a flat studio background.
+
+export interface PreprocessOptions {
+    /** Longest side of the output, in pixels. */
+    maxDimension: number;
+    autoCrop: boolean;
+    removeBackground: boolean;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    maxDimension: 1536,
+    autoCrop: true,
+    removeBackground: false,
+};
+
+export interface PreprocessResult {
+    file: File;
+    width: number;
+    height: number;
+    originalWidth: number;
+    originalHeight: number;
+    /** Human-readable list of what was changed, for the preview. */
+    steps: string[];
+    /** Whether the background looked flat enough to crop against or remove. */
+    hasFlatBackground: boolean;
+}
+
+type Rgb = [number, number, number];
+
+// Per-channel distance beyond which a pixel counts as part of the garment.
+const BACKGROUND_TOLERANCE = 40;
+// Maximum spread of border colors for a background to count as flat.
+const FLAT_BACKGROUND_SPREAD = 30;
+const CROP_PADDING_RATIO = 0.04;
+
+/** Reads the EXIF orientation (1-8) of a JPEG, or 1 when absent. */
+const readExifOrientation = async (file: File): Promise<number> => {
+    if (file.type !== 'image/jpeg') return 1;
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+            const tiff = offset + 10;
+            const little = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            if (ifd + 2 > view.byteLength) return 1;
+            const entries = view.getUint16(ifd, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 10 > view.byteLength) return 1;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    return view.getUint16(entry + 8, little);
+                }
+            }
+            return 1;
+        }
+        if ((marker & 0xff00) !== 0xff00) return 1;
+        offset += 2 + length;
+    }
+    return 1;
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context.');
+    }
+    return { canvas, ctx };
+};
+
+/**
+ * Estimates the background from the image border. Returns null when the border
+ * is too varied to be a plain backdrop, or mostly transparent already.
+ */
+const detectFlatBackground = (data: Uint8ClampedArray, width: number, height: number): Rgb | null => {
+    const samples: Rgb[] = [];
+    let transparent = 0;
+    const sample = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        if (data[i + 3] < 128) {
+            transparent++;
+            return;
+        }
+        samples.push([data[i], data[i + 1], data[i + 2]]);
+    };
+    const step = Math.max(1, Math.floor(Math.min(width, height) / 100));
+    for (let x = 0; x < width; x += step) { sample(x, 0); sample(x, height - 1); }
+    for (let y = 0; y < height; y += step) { sample(0, y); sample(width - 1, y); }
+    if (samples.length === 0 || transparent > samples.length) return null;
+
+    const channel = (c: number) => samples.map(s => s[c]).sort((a, b) => a - b);
+    const median: Rgb = [0, 1, 2].map(c => channel(c)[Math.floor(samples.length / 2)]) as Rgb;
+    const near = samples.filter(s => s.every((v, c) => Math.abs(v - median[c]) <= FLAT_BACKGROUND_SPREAD)).length;
+    return near / samples.length >= 0.9 ? median : null;
+};
+
+const isBackgroundPixel = (data: Uint8ClampedArray, i: number, background: Rgb | null) => {
+    if (data[i + 3] < 16) return true;
+    if (!background) return false;
+    return Math.abs(data[i] - background[0]) <= BACKGROUND_TOLERANCE
+        && Math.abs(data[i + 1] - background[1]) <= BACKGROUND_TOLERANCE
+        && Math.abs(data[i + 2] - background[2]) <= BACKGROUND_TOLERANCE;
+};
+
+/** Bounding box of non-background pixels, or null if there are none. */
+const findContentBounds = (data: Uint8ClampedArray, width: number, height: number, background: Rgb | null) => {
+    let left = width, top = height, right = -1, bottom = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!isBackgroundPixel(data, (y * width + x) * 4, background)) {
+                if (x < left) left = x;
+                if (x > right) right = x;
+                if (y < top) top = y;
+                if (y > bottom) bottom = y;
+            }
+        }
+    }
+    if (right < 0) return null;
+    const pad = Math.round(Math.max(right - left, bottom - top) * CROP_PADDING_RATIO);
+    left = Math.max(0, left - pad);
+    top = Math.max(0, top - pad);
+    right = Math.min(width - 1, right + pad);
+    bottom = Math.min(height - 1, bottom + pad);
+    return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+/**
+ * Makes background pixels connected to the image border transparent, so
+ * background-colored areas inside the garment (e.g. a white print) survive.
+ */
+const removeConnectedBackground = (data: Uint8ClampedArray, width: number, height: number, background: Rgb) => {
+    const visited = new Uint8Array(width * height);
+    const stack: number[] = [];
+    const push = (x: number, y: number) => {
+        const p = y * width + x;
+        if (!visited[p] && isBackgroundPixel(data, p * 4, background)) {
+            visited[p] = 1;
+            stack.push(p);
+        }
+    };
+    for (let x = 0; x < width; x++) { push(x, 0); push(x, height - 1); }
+    for (let y = 0; y < height; y++) { push(0, y); push(width - 1, y); }
+    while (stack.length > 0) {
+        const p = stack.pop()!;
+        data[p * 4 + 3] = 0;
+        const x = p % width;
+        const y = (p - x) / width;
+        if (x > 0) push(x - 1, y);
+        if (x < width - 1) push(x + 1, y);
+        if (y > 0) push(x, y - 1);
+        if (y < height - 1) push(x, y + 1);
+    }
+    // Soften the cut-out edge: garment pixels touching the background get half alpha.
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const p = y * width + x;
+            if (visited[p]) continue;
+            if (visited[p - 1] || visited[p + 1] || visited[p - width] || visited[p + width]) {
+                data[p * 4 + 3] = Math.min(data[p * 4 + 3], 128);
+            }
+        }
+    }
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string, type: 'image/png' | 'image/jpeg'): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (!blob) {
+                return reject(new Error('Canvas toBlob failed.'));
+            }
+            const extension = type === 'image/png' ? 'png' : 'jpg';
+            resolve(new File([blob], `${name.replace(/\.[^.]+$/, '')}.${extension}`, { type }));
+        }, type, 0.92);
+    });
+};
+
+/**
+ * Runs the garment clean-up pipeline on an uploaded file. The output is a PNG
+ * when it has transparency and a JPEG otherwise.
+ */
+export const preprocessGarmentImage = async (file: File, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<PreprocessResult> => {
+    const steps: string[] = [];
+    const orientation = await readExifOrientation(file);
+    // Decoding through createImageBitmap with "from-image" applies the EXIF
+    // orientation, so the pixels come out upright.
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    if (orientation > 1) {
+        steps.push('Applied camera orientation');
+    }
+
+    const originalWidth = bitmap.width;
+    const originalHeight = bitmap.height;
+    const scale = Math.min(1, options.maxDimension / Math.max(originalWidth, originalHeight));
+    const width = Math.max(1, Math.round(originalWidth * scale));
+    const height = Math.max(1, Math.round(originalHeight * scale));
+    if (scale < 1) {
+        steps.push(`Downscaled from ${originalWidth}×${originalHeight}`);
+    }
+
+    const { ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    const image = ctx.getImageData(0, 0, width, height);
+    const background = detectFlatBackground(image.data, width, height);
+
+    let hasTransparency = file.type === 'image/png' || file.type === 'image/webp';
+    if (options.removeBackground && background) {
+        removeConnectedBackground(image.data, width, height, background);
+        ctx.putImageData(image, 0, 0);
+        hasTransparency = true;
+        steps.push('Removed background');
+    }
+
+    let bounds = { x: 0, y: 0, width, height };
+    if (options.autoCrop) {
+        const content = findContentBounds(image.data, width, height, background);
+        if (content && (content.width < width || content.height < height)) {
+            bounds = content;
+            steps.push('Cropped to the garment');
+        }
+    }
+
+    const output = createCanvas(bounds.width, bounds.height);
+    if (!hasTransparency) {
+        output.ctx.fillStyle = '#ffffff';
+        output.ctx.fillRect(0, 0, bounds.width, bounds.height);
+    }
+    output.ctx.drawImage(ctx.canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+
+    return {
+        file: await canvasToFile(output.canvas, file.name, hasTransparency ? 'image/png' : 'image/jpeg'),
+        width: bounds.width,
+        height: bounds.height,
+        originalWidth,
+        originalHeight,
+        steps,
+        hasFlatBackground: background !== null,
+    };
+};
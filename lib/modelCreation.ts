@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ModelCreationMode, ModelCreationSettings } from '../types';
+
+export const MAX_CUSTOM_MODEL_PROMPT_LENGTH = 500;
+
+export const MODEL_CREATION_MODES: { id: ModelCreationMode; label: string; description: string }[] = [
+  { id: 'faithful', label: 'As I am', description: 'Keeps your body exactly as it is in the photo.' },
+  { id: 'athletic', label: 'Athletic', description: 'Refines your build to a toned, athletic look.' },
+  { id: 'custom', label: 'Custom', description: 'Describe the look you want.' },
+];
+
+// Models created before modes existed were always athletic.
+export const LEGACY_MODEL_CREATION: ModelCreationSettings = { mode: 'athletic' };
+
+export const DEFAULT_MODEL_CREATION: ModelCreationSettings = { mode: 'faithful' };
+
+/** True for settings with a known mode and, in custom mode, a usable prompt. */
+export const isModelCreationSettings = (value: unknown): value is ModelCreationSettings => {
+  if (!value || typeof value !== 'object') return false;
+  const { mode, customPrompt } = value as Record<string, unknown>;
+  if (!MODEL_CREATION_MODES.some(m => m.id === mode)) return false;
+  if (mode !== 'custom') return true;
+  return typeof customPrompt === 'string' && customPrompt.trim().length > 0 && customPrompt.length <= MAX_CUSTOM_MODEL_PROMPT_LENGTH;
+};
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerationMetadata, OutfitLayer, OutfitTree, WardrobeItem } from '../types';
+
+export const createLayer = (
+  parentId: string | null,
+  garment: WardrobeItem | null,
+  poseImages: Record<string, string>,
+  poseMetadata?: Record<string, GenerationMetadata>,
+): OutfitLayer => ({
+  id: `layer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  parentId,
+  garment,
+  poseImages,
+  ...(poseMetadata && { poseMetadata }),
+  createdAt: Date.now(),
+});
+
+/** The most garments a look applies in one generation. */
+export const MAX_LOOK_GARMENTS = 6;
+
+/** A layer wearing several garments at once, generated in a single try-on. */
+export const createLookLayer = (
+  parentId: string,
+  garments: WardrobeItem[],
+  poseImages: Record<string, string>,
+  poseMetadata?: Record<string, GenerationMetadata>,
+): OutfitLayer => ({ ...createLayer(parentId, null, poseImages, poseMetadata), look: garments });
+
+/** `layer` with `imageUrl` as its image in `poseInstruction`, recording how it was generated when known. */
+export const setPoseImage = (
+  layer: OutfitLayer,
+  poseInstruction: string,
+  imageUrl: string,
+  metadata?: GenerationMetadata | null,
+): OutfitLayer => ({
+  ...layer,
+  poseImages: { ...layer.poseImages, [poseInstruction]: imageUrl },
+  ...(metadata && { poseMetadata: { ...layer.poseMetadata, [poseInstruction]: metadata } }),
+});
+
+/** The garments a layer adds: one, a whole look, or none for the base model. */
+export const getLayerGarments = (layer: OutfitLayer): WardrobeItem[] =>
+  layer.look ?? (layer.garment ? [layer.garment] : []);
+
+export const describeLayer = (layer: OutfitLayer): string => {
+  const garments = getLayerGarments(layer);
+  return garments.length > 0 ? garments.map(garment => garment.name).join(' + ') : 'Base Model';
+};
+
+export const sameGarments = (a: WardrobeItem[], b: WardrobeItem[]) =>
+  a.length === b.length && a.every((garment, i) => garment.id === b[i].id);
+
+export const addLayer = (tree: OutfitTree, layer: OutfitLayer): OutfitTree => ({ ...tree, [layer.id]: layer });
+
+export const updateLayer = (tree: OutfitTree, id: string, update: (layer: OutfitLayer) => OutfitLayer): OutfitTree => {
+  const layer = tree[id];
+  return layer ? { ...tree, [id]: update(layer) } : tree;
+};
+
+/** Layers from the base model down to `id`, i.e. the garment stack of that outfit. */
+export const getLayerPath = (tree: OutfitTree, id: string | null): OutfitLayer[] => {
+  const path: OutfitLayer[] = [];
+  let layer = id ? tree[id] : undefined;
+  while (layer) {
+    path.unshift(layer);
+    layer = layer.parentId ? tree[layer.parentId] : undefined;
+  }
+  return path;
+};
+
+export const getChildren = (tree: OutfitTree, parentId: string | null): OutfitLayer[] =>
+  Object.values(tree)
+    .filter(layer => layer.parentId === parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+export const getRootLayer = (tree: OutfitTree): OutfitLayer | undefined => getChildren(tree, null)[0];
+
+/** An existing branch that already applied exactly `garments`, in that order, on top of `parentId`, if any. */
+export const findChildWithGarments = (tree: OutfitTree, parentId: string, garments: WardrobeItem[]): OutfitLayer | undefined =>
+  getChildren(tree, parentId).find(layer => sameGarments(getLayerGarments(layer), garments));
+
+/** The image a layer is shown with by default, and built on by the next layer. */
+export const getLayerBaseImage = (layer: OutfitLayer, poseInstruction: string): string =>
+  layer.poseImages[poseInstruction] ?? Object.values(layer.poseImages)[0];
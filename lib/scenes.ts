@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const MAX_CUSTOM_SCENE_LENGTH = 300;
+
+export const SCENE_PRESETS: { id: string; label: string; description: string }[] = [
+  { id: 'studio-white', label: 'Studio white', description: 'A clean, seamless white photo studio backdrop with soft, even studio lighting' },
+  { id: 'street', label: 'Street', description: 'A city sidewalk with shop fronts and soft daylight, shallow depth of field' },
+  { id: 'office', label: 'Office', description: 'A bright, modern open-plan office with large windows and natural light' },
+  { id: 'beach', label: 'Beach', description: 'A sandy beach with the sea behind, in warm late-afternoon sunlight' },
+  { id: 'evening-event', label: 'Evening event', description: 'An elegant evening event venue with warm ambient lighting and soft bokeh' },
+];
+
+export const UPLOADED_SCENE_LABEL = 'Uploaded background';
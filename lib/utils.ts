@@ -21,7 +21,7 @@ export function getFriendlyErrorMessage(error: unknown, context: string): string
 
     // Check for specific Quota Exceeded error (429) from Gemini API
     if (rawMessage.includes('"code":429') || rawMessage.includes('RESOURCE_EXHAUSTED')) {
-        return `Too many requests have been sent in a short period. Please wait about a minute and try again.`;
+        return `The service is still rate-limiting requests after several automatic retries. Please wait about a minute and try again.`;
     }
 
     // Check for specific unsupported MIME type error from Gemini API
@@ -42,4 +42,52 @@ export function getFriendlyErrorMessage(error: unknown, context: string): string
     }
     
     return `${context}. ${rawMessage}`;
-}
\ No newline at end of file
+}
+
+// Helper to convert image URL to a File object using a canvas to bypass potential CORS issues.
+export const urlToFile = (url: string, filename: string): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.setAttribute('crossOrigin', 'anonymous');
+
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                return reject(new Error('Could not get canvas context.'));
+            }
+            ctx.drawImage(image, 0, 0);
+
+            canvas.toBlob((blob) => {
+                if (!blob) {
+                    return reject(new Error('Canvas toBlob failed.'));
+                }
+                const mimeType = blob.type || 'image/png';
+                const file = new File([blob], filename, { type: mimeType });
+                resolve(file);
+            }, 'image/png');
+        };
+
+        image.onerror = (error) => {
+            reject(new Error(`Could not load image from URL for canvas conversion. Error: ${error}`));
+        };
+
+        image.src = url;
+    });
+};
+
+/** Saves a generated file through a temporary download link. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke on the next tick so the browser has started the download.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
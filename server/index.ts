@@ -0,0 +1,395 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Small API proxy that keeps the Gemini API key on the server. The browser
+// talks to it through the "proxy" provider (services/providers/proxyProvider.ts).
+//
+// Configuration (environment variables):
+//   GEMINI_API_KEY         required, the Gemini API key
+//   GEMINI_MODEL           optional model override
+//   PORT                   default 8787
+//   ALLOWED_ORIGINS        comma-separated CORS origins, e.g. the app's; default
+//                          none, so only same-origin pages can call the API. "*"
+//                          lets any website spend the key.
+//   RATE_LIMIT_MAX         generations per client per window, default 20
+//   RATE_LIMIT_WINDOW_MS   default 60000
+//   MAX_BODY_BYTES         default 15 MB
+//   TRUST_PROXY            "true" to read the client IP from X-Forwarded-For
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { GarmentCategory, ModelCreationMode } from '../types';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { MAX_CANDIDATES } from '../services/providers/tryOnProvider';
+import type { CandidateRequest, GenerationDetails, LookGarment, ProviderImage } from '../services/providers/tryOnProvider';
+import { MAX_GARMENT_NAME_LENGTH, isGarmentCategory } from '../wardrobe';
+import { isHexColor } from '../lib/colors';
+import { MAX_BODY_STEP, isBodyAdjustment } from '../lib/bodyAdjustments';
+import { LEGACY_MODEL_CREATION, MAX_CUSTOM_MODEL_PROMPT_LENGTH, MODEL_CREATION_MODES, isModelCreationSettings } from '../lib/modelCreation';
+import { MAX_LOOK_GARMENTS } from '../lib/outfitTree';
+import { MAX_CUSTOM_SCENE_LENGTH } from '../lib/scenes';
+import { createRateLimiter } from './rateLimiter';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES ?? 15 * 1024 * 1024);
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+// Built-in and saved poses are short phrases; anything longer isn't a pose.
+const MAX_POSE_INSTRUCTION_LENGTH = 200;
+// Color names come from the app's palettes and its color namer, all a word or two.
+const MAX_COLOR_NAME_LENGTH = 40;
+
+if (!process.env.GEMINI_API_KEY) {
+    console.error('GEMINI_API_KEY is not set. The API proxy cannot start without it.');
+    process.exit(1);
+}
+
+const provider = createGeminiProvider({ apiKey: process.env.GEMINI_API_KEY, model: process.env.GEMINI_MODEL });
+const rateLimiter = createRateLimiter({
+    maxRequests: Number(process.env.RATE_LIMIT_MAX ?? 20),
+    windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS ?? 60_000),
+});
+
+class HttpError extends Error {
+    constructor(readonly statusCode: number, readonly status: string, message: string) {
+        super(message);
+    }
+}
+
+const DATA_URL_PATTERN = /^data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)$/;
+
+const requireString = (body: Record<string, unknown>, field: string, maxLength?: number): string => {
+    const value = body[field];
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new HttpError(400, 'INVALID_ARGUMENT', `Field "${field}" must be a non-empty string.`);
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+        throw new HttpError(400, 'INVALID_ARGUMENT', `Field "${field}" must be at most ${maxLength} characters.`);
+    }
+    return value;
+};
+
+// Optional text falls back to `fallback` when absent but is otherwise held to the same rules.
+const optionalString = (body: Record<string, unknown>, field: string, fallback: string, maxLength?: number): string =>
+    body[field] === undefined ? fallback : requireString(body, field, maxLength);
+
+const requireImageDataUrl = (body: Record<string, unknown>, field: string): string => {
+    const value = requireString(body, field);
+    if (!DATA_URL_PATTERN.test(value)) {
+        throw new HttpError(400, 'INVALID_ARGUMENT', `Field "${field}" must be a base64 image data URL.`);
+    }
+    return value;
+};
+
+const dataUrlToFile = (dataUrl: string, name: string): File => {
+    const [, mimeType, data] = dataUrl.match(DATA_URL_PATTERN)!;
+    return new File([Buffer.from(data, 'base64')], name, { type: mimeType });
+};
+
+// Clients predating garment categories send none; treat those items as tops.
+const requireGarmentCategory = (body: Record<string, unknown>, field: string): GarmentCategory => {
+    const category = body[field] ?? 'top';
+    if (!isGarmentCategory(category)) {
+        throw new HttpError(400, 'INVALID_ARGUMENT', `Field "${field}" is not a known garment category.`);
+    }
+    return category;
+};
+
+// Clients predating creation modes always dressed athletic models.
+const requireModelMode = (body: Record<string, unknown>): ModelCreationMode => {
+    const modelMode = body.modelMode ?? LEGACY_MODEL_CREATION.mode;
+    const knownMode = MODEL_CREATION_MODES.find(mode => mode.id === modelMode);
+    if (!knownMode) {
+        throw new HttpError(400, 'INVALID_ARGUMENT', 'Field "modelMode" is not a known model creation mode.');
+    }
+    return knownMode.id;
+};
+
+const readTryOnRequest = (body: Record<string, unknown>): Extract<CandidateRequest, { kind: 'try-on' }> => {
+    const garmentName = optionalString(body, 'garmentName', 'garment', MAX_GARMENT_NAME_LENGTH);
+    return {
+        kind: 'try-on',
+        modelImageUrl: requireImageDataUrl(body, 'modelImageUrl'),
+        garmentImage: dataUrlToFile(requireImageDataUrl(body, 'garmentImage'), garmentName),
+        garmentCategory: requireGarmentCategory(body, 'garmentCategory'),
+        modelMode: requireModelMode(body),
+    };
+};
+
+const readLookRequest = (body: Record<string, unknown>): Extract<CandidateRequest, { kind: 'look' }> => {
+    const { garments } = body;
+    if (!Array.isArray(garments) || garments.length < 2 || garments.length > MAX_LOOK_GARMENTS) {
+        throw new HttpError(400, 'INVALID_ARGUMENT', `Field "garments" must list 2 to ${MAX_LOOK_GARMENTS} garments.`);
+    }
+    const lookGarments = garments.map((garment: unknown, i): LookGarment => {
+        if (!garment || typeof garment !== 'object') {
+            throw new HttpError(400, 'INVALID_ARGUMENT', `Garment ${i + 1} must be an object.`);
+        }
+        const fields = garment as Record<string, unknown>;
+        const garmentName = optionalString(fields, 'garmentName', `garment-${i + 1}`, MAX_GARMENT_NAME_LENGTH);
+        return {
+            image: dataUrlToFile(requireImageDataUrl(fields, 'garmentImage'), garmentName),
+            category: requireGarmentCategory(fields, 'garmentCategory'),
+        };
+    });
+    return { kind: 'look', modelImageUrl: requireImageDataUrl(body, 'modelImageUrl'), garments: lookGarments, modelMode: requireModelMode(body) };
+};
+
+const readPoseRequest = (body: Record<string, unknown>): Extract<CandidateRequest, { kind: 'pose' }> => ({
+    kind: 'pose',
+    baseImageUrl: requireImageDataUrl(body, 'baseImageUrl'),
+    poseInstruction: requireString(body, 'poseInstruction', MAX_POSE_INSTRUCTION_LENGTH),
+});
+
+const readCandidateCount = (body: Record<string, unknown>): number => {
+    const { count } = body;
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_CANDIDATES) {
+        throw new HttpError(400, 'INVALID_ARGUMENT', `Field "count" must be a whole number from 1 to ${MAX_CANDIDATES}.`);
+    }
+    return count;
+};
+
+// Routes resolve to one image, or to several for /api/candidates.
+type RouteHandler = (body: Record<string, unknown>, signal: AbortSignal) => Promise<ProviderImage | ProviderImage[]>;
+
+const routes: Record<string, RouteHandler> = {
+    '/api/model': (body, signal) => {
+        // Clients predating creation modes always asked for an athletic model.
+        const modelCreation = body.modelCreation ?? LEGACY_MODEL_CREATION;
+        if (!isModelCreationSettings(modelCreation)) {
+            throw new HttpError(400, 'INVALID_ARGUMENT', `Field "modelCreation" needs a known mode, and custom mode a prompt of at most ${MAX_CUSTOM_MODEL_PROMPT_LENGTH} characters.`);
+        }
+        return provider.generateModelImage(dataUrlToFile(requireImageDataUrl(body, 'userImage'), 'user-image'), modelCreation, signal);
+    },
+
+    '/api/try-on': (body, signal) => {
+        const request = readTryOnRequest(body);
+        return provider.generateVirtualTryOnImage(request.modelImageUrl, request.garmentImage, request.garmentCategory, request.modelMode, signal);
+    },
+
+    '/api/look': (body, signal) => {
+        const request = readLookRequest(body);
+        return provider.generateLookImage(request.modelImageUrl, request.garments, request.modelMode, signal);
+    },
+
+    '/api/pose': (body, signal) => {
+        const request = readPoseRequest(body);
+        return provider.generatePoseVariation(request.baseImageUrl, request.poseInstruction, signal);
+    },
+
+    '/api/candidates': (body, signal) => {
+        const count = readCandidateCount(body);
+        switch (body.kind) {
+            case 'try-on':
+                return provider.generateCandidates(readTryOnRequest(body), count, signal);
+            case 'look':
+                return provider.generateCandidates(readLookRequest(body), count, signal);
+            case 'pose':
+                return provider.generateCandidates(readPoseRequest(body), count, signal);
+            default:
+                throw new HttpError(400, 'INVALID_ARGUMENT', 'Field "kind" must be "try-on", "look" or "pose".');
+        }
+    },
+
+    '/api/body-adjust': (body, signal) => {
+        const adjustment = body.adjustment;
+        if (!isBodyAdjustment(adjustment)) {
+            throw new HttpError(400, 'INVALID_ARGUMENT', `Field "adjustment" must map body attributes to whole steps between -${MAX_BODY_STEP} and ${MAX_BODY_STEP}.`);
+        }
+        return provider.adjustBodyShape(requireImageDataUrl(body, 'baseImageUrl'), adjustment, signal);
+    },
+
+    '/api/scene': (body, signal) => {
+        const backgroundImage = body.backgroundImage === undefined
+            ? undefined
+            : dataUrlToFile(requireImageDataUrl(body, 'backgroundImage'), 'background');
+        return provider.generateSceneVariation(
+            requireImageDataUrl(body, 'baseImageUrl'),
+            { description: requireString(body, 'sceneDescription', MAX_CUSTOM_SCENE_LENGTH), backgroundImage },
+            signal,
+        );
+    },
+
+    '/api/recolor': (body, signal) => {
+        const garmentName = optionalString(body, 'garmentName', 'garment', MAX_GARMENT_NAME_LENGTH);
+        const hex = requireString(body, 'colorHex');
+        if (!isHexColor(hex)) {
+            throw new HttpError(400, 'INVALID_ARGUMENT', 'Field "colorHex" must be a color like "#1f2a44".');
+        }
+        return provider.recolorGarment(
+            dataUrlToFile(requireImageDataUrl(body, 'garmentImage'), garmentName),
+            { name: requireString(body, 'colorName', MAX_COLOR_NAME_LENGTH), hex },
+            signal,
+        );
+    },
+};
+
+// Generations each request runs, for rate limiting; routes not listed run one.
+const routeCosts: Record<string, (body: Record<string, unknown>) => number> = {
+    '/api/candidates': readCandidateCount,
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<Record<string, unknown>> => {
+    return new Promise((resolve, reject) => {
+        // Stop reading without dropping the socket, so the 413 still reaches the
+        // client; the 413 response then closes the connection.
+        const rejectTooLarge = () => {
+            req.removeAllListeners('data');
+            req.removeAllListeners('end');
+            req.pause();
+            reject(new HttpError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${MAX_BODY_BYTES} bytes.`));
+        };
+
+        const declaredLength = Number(req.headers['content-length'] ?? 0);
+        if (declaredLength > MAX_BODY_BYTES) {
+            rejectTooLarge();
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        req.on('data', (chunk: Buffer) => {
+            received += chunk.length;
+            if (received > MAX_BODY_BYTES) {
+                rejectTooLarge();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+                if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                    throw new Error('not an object');
+                }
+                resolve(parsed);
+            } catch {
+                reject(new HttpError(400, 'INVALID_ARGUMENT', 'Request body must be a JSON object.'));
+            }
+        });
+        req.on('error', reject);
+    });
+};
+
+const getClientId = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (TRUST_PROXY && typeof forwarded === 'string') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+const applyCors = (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (ALLOWED_ORIGINS.includes('*')) {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+    } else if (origin && ALLOWED_ORIGINS.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+};
+
+const sendJson = (res: ServerResponse, statusCode: number, payload: unknown) => {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+};
+
+// Error bodies mirror the Gemini API shape so the client's error handling
+// (getFriendlyErrorMessage) recognises the same codes.
+const sendError = (res: ServerResponse, statusCode: number, status: string, message: string) => {
+    sendJson(res, statusCode, { error: { code: statusCode, status, message } });
+};
+
+const sendRateLimited = (res: ServerResponse, retryAfterSeconds: number) => {
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    sendError(res, 429, 'RESOURCE_EXHAUSTED', `Rate limit exceeded. Try again in ${retryAfterSeconds} seconds.`);
+};
+
+const toDetails = ({ model, prompt, finishReason }: ProviderImage): GenerationDetails => ({ model, prompt, finishReason });
+
+const isQuotaError = (message: string) => message.includes('"code":429') || message.includes('RESOURCE_EXHAUSTED');
+
+const server = createServer(async (req, res) => {
+    applyCors(req, res);
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path === '/api/health') {
+        sendJson(res, 200, { ok: true });
+        return;
+    }
+
+    const handler = routes[path];
+    if (!handler) {
+        sendError(res, 404, 'NOT_FOUND', `No route for ${path}.`);
+        return;
+    }
+    if (req.method !== 'POST') {
+        sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Use POST.');
+        return;
+    }
+
+    // One token up front keeps limited clients from uploading bodies at all;
+    // routes that run several generations are charged the rest once parsed.
+    const clientId = getClientId(req);
+    const limit = rateLimiter.consume(clientId);
+    if (!limit.allowed) {
+        sendRateLimited(res, limit.retryAfterSeconds);
+        req.resume();
+        return;
+    }
+    res.setHeader('X-RateLimit-Remaining', String(limit.remaining));
+
+    // Stop the upstream generation if the browser cancels or disconnects.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+        const body = await readJsonBody(req);
+        const extraCost = (routeCosts[path]?.(body) ?? 1) - 1;
+        if (extraCost > 0) {
+            const extraLimit = rateLimiter.consume(clientId, extraCost);
+            if (!extraLimit.allowed) {
+                sendRateLimited(res, extraLimit.retryAfterSeconds);
+                return;
+            }
+            res.setHeader('X-RateLimit-Remaining', String(extraLimit.remaining));
+        }
+        const result = await handler(body, controller.signal);
+        sendJson(res, 200, Array.isArray(result)
+            ? { imageUrls: result.map(image => image.imageUrl), details: result.map(toDetails) }
+            : { imageUrl: result.imageUrl, details: toDetails(result) });
+    } catch (err) {
+        if (controller.signal.aborted) return;
+        if (err instanceof HttpError) {
+            if (err.statusCode === 413) res.setHeader('Connection', 'close');
+            sendError(res, err.statusCode, err.status, err.message);
+            return;
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        if (isQuotaError(message)) {
+            sendError(res, 429, 'RESOURCE_EXHAUSTED', message);
+            return;
+        }
+        console.error(`[${path}] generation failed:`, message);
+        sendError(res, 502, 'UPSTREAM_ERROR', message);
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Mari Fit API proxy listening on http://localhost:${PORT}`);
+    if (ALLOWED_ORIGINS.includes('*')) {
+        console.warn('ALLOWED_ORIGINS is "*": any website can use this server\'s API key.');
+    }
+});
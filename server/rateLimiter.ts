@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+interface RateLimiterOptions {
+    /** Requests allowed per client within one window. */
+    maxRequests: number;
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    /** Seconds until the client's window resets; only meaningful when not allowed. */
+    retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window, in-memory rate limiter keyed by client id. State is per
+ * process, which is enough for the single-instance proxy this app needs.
+ */
+export const createRateLimiter = ({ maxRequests, windowMs }: RateLimiterOptions) => {
+    const windows = new Map<string, { startedAt: number; count: number }>();
+
+    // Drop expired windows periodically so the map doesn't grow without bound.
+    const sweep = setInterval(() => {
+        const now = Date.now();
+        for (const [clientId, window] of windows) {
+            if (now - window.startedAt >= windowMs) windows.delete(clientId);
+        }
+    }, windowMs);
+    sweep.unref();
+
+    /** Takes `cost` requests from the client's window: all of them, or none when they don't fit. */
+    const consume = (clientId: string, cost = 1): RateLimitResult => {
+        const now = Date.now();
+        let window = windows.get(clientId);
+        if (!window || now - window.startedAt >= windowMs) {
+            window = { startedAt: now, count: 0 };
+            windows.set(clientId, window);
+        }
+
+        if (window.count + cost > maxRequests) {
+            return {
+                allowed: false,
+                remaining: 0,
+                retryAfterSeconds: Math.ceil((window.startedAt + windowMs - now) / 1000),
+            };
+        }
+
+        window.count += cost;
+        return { allowed: true, remaining: maxRequests - window.count, retryAfterSeconds: 0 };
+    };
+
+    return { consume };
+};
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ModelCreationMode, WardrobeItem } from '../types';
+import { generateVirtualTryOnImage, requestQueue } from './geminiService';
+import { isCancelledError } from './retry';
+import { getFriendlyErrorMessage, urlToFile } from '../lib/utils';
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchModel {
+    id: string;
+    name: string;
+    imageUrl: string;
+    modelMode: ModelCreationMode;
+}
+
+/** One cell of the results grid: a garment tried on one model. */
+export interface BatchJob {
+    id: string;
+    garment: WardrobeItem;
+    model: BatchModel;
+    status: BatchJobStatus;
+    attempts: number;
+    resultUrl: string | null;
+    error: string | null;
+}
+
+interface BatchTryOnRunnerOptions {
+    /**
+     * Jobs submitted to the request queue at once; the rest wait here. Capped at
+     * the queue's own limit, since jobs beyond it would only wait in the queue
+     * while shown as running.
+     */
+    concurrency?: number;
+}
+
+/** The most batch jobs that can run at once: the request queue's own limit. */
+export const getMaxBatchConcurrency = () => requestQueue.maxConcurrent;
+
+const clampConcurrency = (concurrency: number) => Math.min(Math.max(1, Math.floor(concurrency)), getMaxBatchConcurrency());
+
+/**
+ * Runs every garment x model combination through `generateVirtualTryOnImage`
+ * as background work, so the user's own requests go first. Transient failures
+ * are already retried by the request queue; jobs that still fail stay in the
+ * grid and can be retried one by one.
+ */
+export const createBatchTryOnRunner = ({ concurrency = 1 }: BatchTryOnRunnerOptions = {}) => {
+    let limit = clampConcurrency(concurrency);
+    let jobs: BatchJob[] = [];
+    // Part of every job id, so a job still finishing from a replaced batch can
+    // never update a job of the same garment and model in the new one.
+    let batchNumber = 0;
+    const controllers = new Map<string, AbortController>();
+    const listeners = new Set<() => void>();
+
+    const update = (id: string, changes: Partial<BatchJob>) => {
+        jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+        listeners.forEach(listener => listener());
+    };
+
+    const run = async (job: BatchJob) => {
+        const controller = new AbortController();
+        controllers.set(job.id, controller);
+        update(job.id, { status: 'running', attempts: job.attempts + 1, error: null });
+        try {
+            const garmentFile = await urlToFile(job.garment.url, job.garment.name);
+            const { imageUrl: resultUrl } = await generateVirtualTryOnImage(job.model.imageUrl, garmentFile, job.garment.category, job.model.modelMode, controller.signal, 'background');
+            update(job.id, { status: 'done', resultUrl });
+        } catch (err) {
+            if (isCancelledError(err) || controller.signal.aborted) {
+                update(job.id, { status: 'cancelled' });
+            } else {
+                update(job.id, { status: 'failed', error: getFriendlyErrorMessage(err, 'Try-on failed') });
+            }
+        } finally {
+            controllers.delete(job.id);
+            pump();
+        }
+    };
+
+    const pump = () => {
+        const running = jobs.filter(job => job.status === 'running').length;
+        jobs.filter(job => job.status === 'queued')
+            .slice(0, Math.max(0, limit - running))
+            .forEach(run);
+    };
+
+    /** Changes how many jobs run at once; waiting jobs start if there is room. */
+    const setConcurrency = (next: number) => {
+        limit = clampConcurrency(next);
+        pump();
+    };
+
+    /** Cancels running jobs and skips the ones still waiting. */
+    const cancel = () => {
+        jobs.filter(job => job.status === 'queued').forEach(job => update(job.id, { status: 'cancelled' }));
+        controllers.forEach(controller => controller.abort());
+    };
+
+    /** Replaces the current batch with every combination of `garments` and `models`. */
+    const start = (garments: WardrobeItem[], models: BatchModel[]) => {
+        cancel();
+        batchNumber++;
+        jobs = garments.flatMap(garment => models.map((model): BatchJob => ({
+            id: `${batchNumber}:${garment.id}:${model.id}`,
+            garment,
+            model,
+            status: 'queued',
+            attempts: 0,
+            resultUrl: null,
+            error: null,
+        })));
+        listeners.forEach(listener => listener());
+        pump();
+    };
+
+    /** Queues a failed or cancelled job again. */
+    const retry = (id: string) => {
+        const job = jobs.find(j => j.id === id);
+        if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+        update(id, { status: 'queued', error: null });
+        pump();
+    };
+
+    const retryFailed = () => {
+        jobs.filter(job => job.status === 'failed').forEach(job => update(job.id, { status: 'queued', error: null }));
+        pump();
+    };
+
+    const subscribe = (listener: () => void) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+    };
+
+    return {
+        start,
+        cancel,
+        retry,
+        retryFailed,
+        setConcurrency,
+        subscribe,
+        getSnapshot: (): BatchJob[] => jobs,
+    };
+};
+
+export type BatchTryOnRunner = ReturnType<typeof createBatchTryOnRunner>;
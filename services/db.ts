@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Thin promise wrapper around IndexedDB, plus a content-addressed image store.
+// Records never hold image data directly: every data/blob URL is swapped for an
+// `idb-image:<sha256>` reference on write and swapped back on read, so the same
+// generated image shared by several records is only stored once.
+
+const DB_NAME = 'mari-fit';
+const DB_VERSION = 3;
+
+export const SESSIONS_STORE = 'sessions';
+export const IMAGES_STORE = 'images';
+export const WARDROBE_STORE = 'wardrobe';
+export const POSES_STORE = 'poses';
+
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        db.createObjectStore(IMAGES_STORE);
+    }
+    if (oldVersion < 2) {
+        db.createObjectStore(WARDROBE_STORE, { keyPath: 'id' });
+    }
+    if (oldVersion < 3) {
+        db.createObjectStore(POSES_STORE, { keyPath: 'id' });
+    }
+};
+
+export const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if the database could not be opened.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted.'));
+    });
+};
+
+/**
+ * Runs `work` inside a single transaction on `storeName` and resolves once the
+ * transaction has committed.
+ */
+export const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> => {
+    const db = await openDb();
+    const tx = db.transaction(storeName, mode);
+    const done = transactionDone(tx);
+    const result = await work(tx.objectStore(storeName));
+    await done;
+    return result;
+};
+
+// Writes that add image references and the prune that deletes unreferenced
+// images run one at a time. A prune between a record's images being stored and
+// the record itself being written would otherwise delete those images.
+let imageLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs `work` once no other image-referencing write or prune is in progress.
+ * Wrap the `dehydrateImages` call and the write of its result in one call.
+ */
+export const withImageLock = <T>(work: () => Promise<T>): Promise<T> => {
+    const result = imageLock.then(work);
+    imageLock = result.catch(() => {});
+    return result;
+};
+
+// Remembers which key each in-memory URL was stored under, so autosaves don't
+// re-hash and re-write multi-megabyte images that are already persisted.
+const urlToKeyCache = new Map<string, string>();
+
+const isImageUrl = (value: string) => value.startsWith('data:image/') || value.startsWith('blob:');
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return toHex(digest);
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+const putImage = async (url: string): Promise<string> => {
+    const cached = urlToKeyCache.get(url);
+    if (cached) return cached;
+
+    const blob = await (await fetch(url)).blob();
+    const key = await hashBlob(blob);
+    await withStore(IMAGES_STORE, 'readwrite', async (store) => {
+        const existing = await requestToPromise(store.getKey(key));
+        if (existing === undefined) {
+            store.put(blob, key);
+        }
+    });
+    urlToKeyCache.set(url, key);
+    return key;
+};
+
+const getImage = async (key: string): Promise<string | null> => {
+    const blob = await withStore(IMAGES_STORE, 'readonly', store => requestToPromise<Blob | undefined>(store.get(key)));
+    if (!blob) {
+        console.warn(`Stored image ${key} is missing.`);
+        return null;
+    }
+    const dataUrl = await blobToDataUrl(blob);
+    urlToKeyCache.set(dataUrl, key);
+    return dataUrl;
+};
+
+const mapStrings = async (value: unknown, fn: (s: string) => Promise<string | null>): Promise<unknown> => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return Promise.all(value.map(v => mapStrings(v, fn)));
+    if (value && typeof value === 'object') {
+        const entries = await Promise.all(
+            Object.entries(value).map(async ([k, v]) => [k, await mapStrings(v, fn)] as const),
+        );
+        return Object.fromEntries(entries);
+    }
+    return value;
+};
+
+/** Replaces every image URL inside `value` with a reference into the image store. */
+export const dehydrateImages = async <T>(value: T): Promise<unknown> => {
+    return mapStrings(value, async (s) => isImageUrl(s) ? `${IMAGE_REF_PREFIX}${await putImage(s)}` : s);
+};
+
+/**
+ * Inverse of `dehydrateImages`: resolves image references back into data URLs.
+ * A reference to an image that is no longer stored becomes null; callers drop
+ * whatever can't be shown without it.
+ */
+export const hydrateImages = async <T>(value: unknown): Promise<T> => {
+    return mapStrings(value, (s) => s.startsWith(IMAGE_REF_PREFIX) ? getImage(s.slice(IMAGE_REF_PREFIX.length)) : Promise.resolve(s)) as Promise<T>;
+};
+
+const collectImageRefs = (value: unknown, refs: Set<string>) => {
+    if (typeof value === 'string') {
+        if (value.startsWith(IMAGE_REF_PREFIX)) refs.add(value.slice(IMAGE_REF_PREFIX.length));
+    } else if (Array.isArray(value)) {
+        value.forEach(v => collectImageRefs(v, refs));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(v => collectImageRefs(v, refs));
+    }
+};
+
+/**
+ * Deletes every stored image that is no longer referenced by a record in any
+ * other object store.
+ */
+export const pruneUnreferencedImages = (): Promise<void> => withImageLock(async () => {
+    const db = await openDb();
+    const recordStores = Array.from(db.objectStoreNames).filter(name => name !== IMAGES_STORE);
+    const referenced = new Set<string>();
+    for (const storeName of recordStores) {
+        const records = await withStore(storeName, 'readonly', store => requestToPromise(store.getAll()));
+        collectImageRefs(records, referenced);
+    }
+
+    await withStore(IMAGES_STORE, 'readwrite', async (store) => {
+        const keys = await requestToPromise(store.getAllKeys());
+        for (const key of keys) {
+            if (!referenced.has(String(key))) {
+                store.delete(key);
+            }
+        }
+    });
+
+    for (const [url, key] of urlToKeyCache) {
+        if (!referenced.has(key)) urlToKeyCache.delete(url);
+    }
+});
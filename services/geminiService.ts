@@ -3,174 +3,171 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import type { BodyAdjustment, ColorSwatch, GarmentCategory, GenerationMetadata, ModelCreationMode, ModelCreationSettings } from '../types';
+import { MAX_CANDIDATES } from './providers/tryOnProvider';
+import type { CandidateRequest, LookGarment, ProviderImage, SceneRequest, TryOnProvider } from './providers/tryOnProvider';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createProxyProvider } from './providers/proxyProvider';
+import { createRequestQueue } from './requestQueue';
+import type { QueuePriority } from './requestQueue';
+
+export type { CandidateRequest, TryOnProvider } from './providers/tryOnProvider';
+export { MAX_CANDIDATES } from './providers/tryOnProvider';
 
-// Safely get the API key from Vite's environment variables.
 // FIX: Cast `import.meta` to `any` to access the `env` property. Vite exposes environment variables
 // on `import.meta.env`, but TypeScript doesn't know about it without proper configuration
 // (e.g., including `vite/client` in tsconfig).
-const API_KEY = (import.meta as any).env.VITE_API_KEY;
+const env = (import.meta as any).env;
 
-let ai: GoogleGenAI | null;
+/**
+ * Picks the provider named by `VITE_TRYON_PROVIDER` ("gemini", "proxy" or "mock").
+ * Defaults to Gemini so existing local setups behave as before; public builds
+ * should use "proxy" so the API key stays on the server.
+ */
+const createDefaultProvider = (): TryOnProvider => {
+    const providerName = env.VITE_TRYON_PROVIDER ?? 'gemini';
+    switch (providerName) {
+        case 'mock':
+            return createMockProvider();
+        case 'proxy':
+            return createProxyProvider({ baseUrl: env.VITE_API_BASE_URL });
+        case 'gemini':
+            return createGeminiProvider({ apiKey: env.VITE_API_KEY, model: env.VITE_GEMINI_MODEL });
+        default:
+            console.error(`Unknown VITE_TRYON_PROVIDER "${providerName}". Falling back to Gemini.`);
+            return createGeminiProvider({ apiKey: env.VITE_API_KEY, model: env.VITE_GEMINI_MODEL });
+    }
+};
 
-if (API_KEY) {
-    ai = new GoogleGenAI({ apiKey: API_KEY });
-} else {
-    ai = null;
-    // Log an error to the console for developers. The user will see a UI error on API call.
-    console.error("API key not found. Please set the VITE_API_KEY environment variable.");
-}
+let provider: TryOnProvider | null = null;
+
+export const getProvider = (): TryOnProvider => {
+    if (!provider) {
+        provider = createDefaultProvider();
+    }
+    return provider;
+};
+
+/** Replaces the active provider, e.g. to switch to the mock provider in development. */
+export const setProvider = (next: TryOnProvider) => {
+    provider = next;
+};
 
 /**
- * Checks if the GoogleGenAI instance is initialized.
- * @returns The initialized GoogleGenAI instance.
- * @throws An error if the instance is not initialized.
+ * Every generation goes through this queue: requests run one at a time and
+ * transient failures (rate limits, overloaded backend) are retried with
+ * backoff instead of failing immediately. The UI subscribes to it to show
+ * queue position and retry countdowns.
  */
-const getInitializedAi = (): GoogleGenAI => {
-    if (!ai) {
-        throw new Error("Gemini API is not initialized. Make sure the API_KEY environment variable is set.");
-    }
-    return ai;
+export const requestQueue = createRequestQueue();
+
+// Each operation takes an optional AbortSignal. Aborting it removes the request
+// from the queue or cancels it in flight; the promise then rejects with a
+// RequestCancelledError (see `isCancelledError`). Operations that also run as
+// background work take a queue priority, so they don't hold up the user. Every
+// operation resolves to its image together with how it was generated.
+
+/** A generated image and how it was made. */
+export interface GeneratedImage {
+    imageUrl: string;
+    metadata: GenerationMetadata;
+}
+
+const hashImage = async (image: File | string): Promise<string> => {
+    const blob = typeof image === 'string' ? await (await fetch(image)).blob() : image;
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
 };
 
-const fileToPart = async (file: File) => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
+// Input hashes are best effort: an image is still returned when they can't be computed.
+const describeGeneration = async (operation: string, providerName: string, inputs: (File | string)[], latencyMs: number, images: ProviderImage[]): Promise<GeneratedImage[]> => {
+    const inputHashes = await Promise.all(inputs.map(hashImage)).catch((err) => {
+        console.warn(`Could not hash the inputs of "${operation}"`, err);
+        return [];
     });
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
+    return images.map(({ imageUrl, model, prompt, finishReason }) => ({
+        imageUrl,
+        metadata: { operation, provider: providerName, model, prompt, inputHashes, latencyMs, finishReason, createdAt: Date.now() },
+    }));
 };
 
-const dataUrlToParts = (dataUrl: string) => {
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    return { mimeType: mimeMatch[1], data: arr[1] };
-}
+/**
+ * Queues `run` under `label` and returns its images with how they were made.
+ * `run` gets the provider active when the request starts, and that provider is
+ * the one recorded. Latency covers the attempt that succeeded, not time spent
+ * waiting in the queue.
+ */
+const enqueueGenerations = (label: string, inputs: (File | string)[], run: (provider: TryOnProvider, signal: AbortSignal) => Promise<ProviderImage[]>, signal?: AbortSignal, priority?: QueuePriority): Promise<GeneratedImage[]> =>
+    requestQueue.enqueue(label, async (queueSignal) => {
+        const active = getProvider();
+        const startedAt = performance.now();
+        const images = await run(active, queueSignal);
+        return describeGeneration(label, active.name, inputs, Math.round(performance.now() - startedAt), images);
+    }, signal, priority).promise;
 
-const dataUrlToPart = (dataUrl: string) => {
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
-}
+const enqueueGeneration = async (label: string, inputs: (File | string)[], run: (provider: TryOnProvider, signal: AbortSignal) => Promise<ProviderImage>, signal?: AbortSignal, priority?: QueuePriority): Promise<GeneratedImage> =>
+    (await enqueueGenerations(label, inputs, async (active, queueSignal) => [await run(active, queueSignal)], signal, priority))[0];
 
-const handleApiResponse = (response: GenerateContentResponse): string => {
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        throw new Error(errorMessage);
-    }
+export const generateModelImage = (userImage: File, settings: ModelCreationSettings, signal?: AbortSignal): Promise<GeneratedImage> =>
+    enqueueGeneration('Creating model', [userImage], (active, queueSignal) => active.generateModelImage(userImage, settings, queueSignal), signal);
 
-    // Find the first image part in any candidate
-    for (const candidate of response.candidates ?? []) {
-        const imagePart = candidate.content?.parts?.find(part => part.inlineData);
-        if (imagePart?.inlineData) {
-            const { mimeType, data } = imagePart.inlineData;
-            return `data:${mimeType};base64,${data}`;
-        }
-    }
+export const generateVirtualTryOnImage = (modelImageUrl: string, garmentImage: File, garmentCategory: GarmentCategory, modelMode: ModelCreationMode, signal?: AbortSignal, priority?: QueuePriority): Promise<GeneratedImage> =>
+    enqueueGeneration('Applying garment', [modelImageUrl, garmentImage], (active, queueSignal) => active.generateVirtualTryOnImage(modelImageUrl, garmentImage, garmentCategory, modelMode, queueSignal), signal, priority);
 
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        throw new Error(errorMessage);
-    }
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image. ` + (textFeedback ? `The model responded with text: "${textFeedback}"` : "This can happen due to safety filters or if the request is too complex. Please try a different image.");
-    throw new Error(errorMessage);
+export const generateLookImage = (modelImageUrl: string, garments: LookGarment[], modelMode: ModelCreationMode, signal?: AbortSignal): Promise<GeneratedImage> =>
+    enqueueGeneration('Applying look', [modelImageUrl, ...garments.map(garment => garment.image)], (active, queueSignal) => active.generateLookImage(modelImageUrl, garments, modelMode, queueSignal), signal);
+
+export const generatePoseVariation = (baseImageUrl: string, poseInstruction: string, signal?: AbortSignal, priority?: QueuePriority): Promise<GeneratedImage> =>
+    enqueueGeneration('Generating pose', [baseImageUrl], (active, queueSignal) => active.generatePoseVariation(baseImageUrl, poseInstruction, queueSignal), signal, priority);
+
+const CANDIDATE_LABELS: Record<CandidateRequest['kind'], string> = {
+    'try-on': 'Applying garment',
+    look: 'Applying look',
+    pose: 'Generating pose',
 };
 
-// Use the standard gemini-2.5-flash model for a more generous rate limit.
-const model = 'gemini-2.5-flash';
-
-export const generateModelImage = async (userImage: File): Promise<string> => {
-    const ai = getInitializedAi();
-    const userImagePart = await fileToPart(userImage);
-    const prompt = `Objective: From the input image, create a photorealistic, athletic version of the person.
-**CRITICAL RULES:**
-1.  **Identity:** The subject's face and hair MUST remain unchanged. Preserve their identity.
-2.  **Physique:** Refine the body to a natural, amateur athletic build with a flat, toned stomach.
-3.  **Pose & Lighting:** Re-pose the subject in a natural 3/4 view with soft studio lighting.
-4.  **Output:** Return ONLY the final image.`;
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [userImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    return handleApiResponse(response);
+const candidateInputs = (request: CandidateRequest): (File | string)[] => {
+    switch (request.kind) {
+        case 'try-on':
+            return [request.modelImageUrl, request.garmentImage];
+        case 'look':
+            return [request.modelImageUrl, ...request.garments.map(garment => garment.image)];
+        case 'pose':
+            return [request.baseImageUrl];
+    }
 };
 
-export const generateVirtualTryOnImage = async (modelImageUrl: string, garmentImage: File): Promise<string> => {
-    const ai = getInitializedAi();
-    const modelImagePart = dataUrlToPart(modelImageUrl);
-    const garmentImagePart = await fileToPart(garmentImage);
-    const prompt = `You are an expert AI fashion stylist. Your task is to realistically place the provided garment onto the person in the model image.
-
-**Instructions:**
-1.  **Analyze both images:** Carefully examine the model's pose, body shape, and the lighting in their photo. Also, analyze the garment's shape, texture, and how it drapes.
-2.  **Apply the Garment:** Seamlessly fit the garment onto the model. It must look natural, with realistic folds, shadows, and highlights that match the lighting on the model.
-3.  **Preserve Identity & Pose:** Do NOT alter the model's face, body, pose, or the background. Only add the garment.
-4.  **Output:** Return only the final photorealistic image of the model wearing the garment.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [modelImagePart, garmentImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
+/** Up to `count` results of one try-on, look or pose, for the user to choose from. */
+export const generateCandidates = (request: CandidateRequest, count: number, signal?: AbortSignal): Promise<GeneratedImage[]> =>
+    enqueueGenerations(CANDIDATE_LABELS[request.kind], candidateInputs(request), (active, queueSignal) => active.generateCandidates(request, count, queueSignal), signal);
 
-    return handleApiResponse(response);
-};
+export const adjustBodyShape = (baseImageUrl: string, adjustment: BodyAdjustment, signal?: AbortSignal): Promise<GeneratedImage> =>
+    enqueueGeneration('Adjusting body', [baseImageUrl], (active, queueSignal) => active.adjustBodyShape(baseImageUrl, adjustment, queueSignal), signal);
 
-export const generatePoseVariation = async (baseImageUrl: string, poseInstruction: string): Promise<string> => {
-    const ai = getInitializedAi();
-    const baseImagePart = dataUrlToPart(baseImageUrl);
-    const prompt = `Carefully analyze the provided image. Your task is to regenerate the image with the person in a new pose as described, while maintaining their identity, clothing, and the background style.
-
-**Instructions:**
-1.  **Preserve Identity:** Do NOT change the person's face, hair, or distinct features. Their identity must remain the same.
-2.  **Maintain Appearance:** Keep the person's clothing and the style of the background consistent with the original image.
-3.  **Change Pose:** Modify the person's pose to: "${poseInstruction}".
-4.  **Output:** Return only the newly generated photorealistic image.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [baseImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
+export const generateSceneVariation = (baseImageUrl: string, scene: SceneRequest, signal?: AbortSignal): Promise<GeneratedImage> =>
+    enqueueGeneration('Changing scene', scene.backgroundImage ? [baseImageUrl, scene.backgroundImage] : [baseImageUrl], (active, queueSignal) => active.generateSceneVariation(baseImageUrl, scene, queueSignal), signal);
 
-    return handleApiResponse(response);
-};
+export const recolorGarment = (garmentImage: File, color: ColorSwatch, signal?: AbortSignal): Promise<GeneratedImage> =>
+    enqueueGeneration('Recoloring garment', [garmentImage], (active, queueSignal) => active.recolorGarment(garmentImage, color, queueSignal), signal);
 
-export const adjustBodyShape = async (baseImageUrl: string, direction: 'more' | 'less'): Promise<string> => {
-    const ai = getInitializedAi();
-    const baseImagePart = dataUrlToPart(baseImageUrl);
-    const prompt = `You are a precise AI photo editor. The user wants to subtly adjust the abdominal muscles on the person in the image.
-
-**Instruction:**
-*   **Direction:** "${direction}"
-*   If the direction is "more", slightly **increase** the definition of the six-pack abs, making them a bit more visible and toned.
-*   If the direction is "less", slightly **decrease** the definition of the abs, making the stomach flatter and smoother.
-*   **CRITICAL:** The change MUST be subtle and photorealistic.
-*   **NON-NEGOTIABLE:** Do NOT change anything else. The face, hair, body shape, clothing, lighting, and background must remain absolutely identical.
-
-Return ONLY the edited image.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [baseImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
+const CANDIDATE_COUNT_KEY = 'mari-fit:candidate-count';
+const DEFAULT_CANDIDATE_COUNT = 2;
+
+/** How many results a try-on, look or pose asks for; 1 skips the picker. */
+export const getCandidateCount = (): number => {
+    try {
+        const stored = Number(localStorage.getItem(CANDIDATE_COUNT_KEY));
+        return Number.isInteger(stored) && stored >= 1 && stored <= MAX_CANDIDATES ? stored : DEFAULT_CANDIDATE_COUNT;
+    } catch {
+        return DEFAULT_CANDIDATE_COUNT;
+    }
+};
 
-    return handleApiResponse(response);
-}
\ No newline at end of file
+export const setCandidateCount = (count: number) => {
+    try {
+        localStorage.setItem(CANDIDATE_COUNT_KEY, String(count));
+    } catch {
+        // Storage can be unavailable (e.g. private mode); the setting then resets on reload.
+    }
+};
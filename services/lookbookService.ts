@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationMetadata, OutfitLayer, WardrobeItem } from '../types';
+import { urlToFile } from '../lib/utils';
+import { getLayerGarments } from '../lib/outfitTree';
+
+// Builds shareable exports of an outfit entirely in the browser: a paginated
+// PDF lookbook and a ZIP of full-resolution PNGs described by a JSON manifest.
+// The PDF and ZIP libraries are loaded on demand to keep them out of the main
+// bundle.
+
+export const LOOKBOOK_MANIFEST_FORMAT = 'mari-fit-lookbook';
+export const LOOKBOOK_MANIFEST_VERSION = 1;
+
+export interface LookbookManifestGarment {
+    id: string;
+    name: string;
+    category: WardrobeItem['category'];
+    color: string;
+    tags: string[];
+    file: string;
+}
+
+export interface LookbookManifestLook {
+    index: number;
+    title: string;
+    garmentIds: string[];
+    /** `metadata` records how the image was generated, when known. */
+    poses: { instruction: string; file: string; metadata?: GenerationMetadata }[];
+}
+
+export interface LookbookManifest {
+    format: typeof LOOKBOOK_MANIFEST_FORMAT;
+    version: typeof LOOKBOOK_MANIFEST_VERSION;
+    title: string;
+    exportedAt: string;
+    looks: LookbookManifestLook[];
+    garments: LookbookManifestGarment[];
+}
+
+interface Look {
+    index: number;
+    title: string;
+    layer: OutfitLayer;
+    garments: WardrobeItem[];
+}
+
+/** One look per layer of the outfit: the base model, then each garment added on top. */
+const toLooks = (layers: OutfitLayer[]): Look[] => layers.map((layer, i) => {
+    const garments = layers.slice(1, i + 1).flatMap(getLayerGarments);
+    return {
+        index: i + 1,
+        title: garments.length > 0 ? garments.map(g => g.name).join(' + ') : 'Base Model',
+        layer,
+        garments,
+    };
+});
+
+const uniqueGarments = (layers: OutfitLayer[]): WardrobeItem[] => {
+    const byId = new Map<string, WardrobeItem>();
+    layers.flatMap(getLayerGarments).forEach(garment => byId.set(garment.id, garment));
+    return Array.from(byId.values());
+};
+
+const slugify = (value: string) =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48) || 'image';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const lookFolder = (look: Look) => `looks/${pad(look.index)}-${slugify(look.title)}`;
+
+const poseFile = (look: Look, poseIndex: number, instruction: string) =>
+    `${lookFolder(look)}/${pad(poseIndex + 1)}-${slugify(instruction)}.png`;
+
+const garmentFile = (garment: WardrobeItem) => `garments/${slugify(garment.id)}.png`;
+
+export const buildLookbookManifest = (layers: OutfitLayer[], title: string, exportedAt = new Date()): LookbookManifest => ({
+    format: LOOKBOOK_MANIFEST_FORMAT,
+    version: LOOKBOOK_MANIFEST_VERSION,
+    title,
+    exportedAt: exportedAt.toISOString(),
+    looks: toLooks(layers).map(look => ({
+        index: look.index,
+        title: look.title,
+        garmentIds: look.garments.map(g => g.id),
+        poses: Object.keys(look.layer.poseImages).map((instruction, i) => ({
+            instruction,
+            file: poseFile(look, i, instruction),
+            ...(look.layer.poseMetadata?.[instruction] && { metadata: look.layer.poseMetadata[instruction] }),
+        })),
+    })),
+    garments: uniqueGarments(layers).map(garment => ({
+        id: garment.id,
+        name: garment.name,
+        category: garment.category,
+        color: garment.color,
+        tags: garment.tags,
+        file: garmentFile(garment),
+    })),
+});
+
+/** ZIP of every pose image and garment at full resolution, plus `manifest.json`. */
+export const exportLookbookZip = async (layers: OutfitLayer[], title: string): Promise<Blob> => {
+    const { default: JSZip } = await import('jszip');
+    const zip = new JSZip();
+    const manifest = buildLookbookManifest(layers, title);
+    const looks = toLooks(layers);
+
+    for (const [i, look] of manifest.looks.entries()) {
+        for (const pose of look.poses) {
+            zip.file(pose.file, await urlToFile(looks[i].layer.poseImages[pose.instruction], pose.file));
+        }
+    }
+    const garments = uniqueGarments(layers);
+    for (const [i, garment] of manifest.garments.entries()) {
+        zip.file(garment.file, await urlToFile(garments[i].url, garment.file));
+    }
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    return zip.generateAsync({ type: 'blob' });
+};
+
+interface PdfImage {
+    dataUrl: string;
+    width: number;
+    height: number;
+}
+
+// PDF pages embed JPEGs: much smaller than PNG for photographic images.
+const loadPdfImage = (url: string): Promise<PdfImage> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.setAttribute('crossOrigin', 'anonymous');
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                return reject(new Error('Could not get canvas context.'));
+            }
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(image, 0, 0);
+            resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.9), width: canvas.width, height: canvas.height });
+        };
+        image.onerror = () => reject(new Error('Could not load an image for the lookbook.'));
+        image.src = url;
+    });
+};
+
+/** Largest rectangle with the image's aspect ratio that fits the box, centered in it. */
+const fitInBox = (image: PdfImage, x: number, y: number, width: number, height: number) => {
+    const scale = Math.min(width / image.width, height / image.height);
+    const w = image.width * scale;
+    const h = image.height * scale;
+    return { x: x + (width - w) / 2, y: y + (height - h) / 2, w, h };
+};
+
+// A4 portrait, in millimetres.
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 16;
+const POSES_PER_PAGE = 4;
+const THUMB_SIZE = 22;
+
+/**
+ * Paginated lookbook: a cover page with the finished outfit, then a page per look
+ * with its poses (continued over several pages when there are more than four)
+ * and thumbnails of the garments it is wearing.
+ */
+export const exportLookbookPdf = async (layers: OutfitLayer[], title: string): Promise<Blob> => {
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+    const contentWidth = PAGE_WIDTH - MARGIN * 2;
+    const images = new Map<string, PdfImage>();
+    const getImage = async (url: string) => {
+        let image = images.get(url);
+        if (!image) {
+            image = await loadPdfImage(url);
+            images.set(url, image);
+        }
+        return image;
+    };
+    const drawImage = (image: PdfImage, x: number, y: number, width: number, height: number) => {
+        const box = fitInBox(image, x, y, width, height);
+        doc.addImage(image.dataUrl, 'JPEG', box.x, box.y, box.w, box.h);
+    };
+
+    const looks = toLooks(layers);
+    const exportedAt = new Date();
+
+    // Cover page.
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(28);
+    doc.text(title, PAGE_WIDTH / 2, MARGIN + 12, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(100);
+    doc.text(`${looks.length} ${looks.length === 1 ? 'look' : 'looks'} - ${exportedAt.toLocaleDateString()}`, PAGE_WIDTH / 2, MARGIN + 20, { align: 'center' });
+    doc.setTextColor(0);
+    const cover = looks[looks.length - 1];
+    if (cover) {
+        const coverImage = Object.values(cover.layer.poseImages)[0];
+        drawImage(await getImage(coverImage), MARGIN, MARGIN + 30, contentWidth, PAGE_HEIGHT - MARGIN * 2 - 40);
+    }
+
+    for (const look of looks) {
+        const poses = Object.entries(look.layer.poseImages);
+        for (let start = 0; start < poses.length; start += POSES_PER_PAGE) {
+            doc.addPage();
+            const pagePoses = poses.slice(start, start + POSES_PER_PAGE);
+            const heading = `Look ${look.index}: ${look.title}${start > 0 ? ' (continued)' : ''}`;
+            doc.setFont('helvetica', 'bold');
+            doc.setFontSize(16);
+            const headingLines: string[] = doc.splitTextToSize(heading, contentWidth);
+            doc.text(headingLines, MARGIN, MARGIN + 6);
+            const top = MARGIN + 6 + headingLines.length * 7;
+
+            const hasThumbs = look.garments.length > 0;
+            const bottom = PAGE_HEIGHT - MARGIN - (hasThumbs ? THUMB_SIZE + 14 : 0);
+            const columns = pagePoses.length === 1 ? 1 : 2;
+            const rows = Math.ceil(pagePoses.length / columns);
+            const cellWidth = contentWidth / columns;
+            const cellHeight = (bottom - top) / rows;
+
+            doc.setFont('helvetica', 'normal');
+            doc.setFontSize(9);
+            for (const [i, [instruction, url]] of pagePoses.entries()) {
+                const x = MARGIN + (i % columns) * cellWidth;
+                const y = top + Math.floor(i / columns) * cellHeight;
+                drawImage(await getImage(url), x + 2, y + 2, cellWidth - 4, cellHeight - 10);
+                const caption: string[] = doc.splitTextToSize(instruction, cellWidth - 4);
+                doc.text(caption[0], x + cellWidth / 2, y + cellHeight - 3, { align: 'center' });
+            }
+
+            if (hasThumbs) {
+                let x = MARGIN;
+                const y = PAGE_HEIGHT - MARGIN - THUMB_SIZE - 6;
+                doc.setFontSize(7);
+                for (const garment of look.garments) {
+                    if (x + THUMB_SIZE > PAGE_WIDTH - MARGIN) break;
+                    drawImage(await getImage(garment.url), x, y, THUMB_SIZE, THUMB_SIZE);
+                    const name: string[] = doc.splitTextToSize(garment.name, THUMB_SIZE);
+                    doc.text(name[0], x + THUMB_SIZE / 2, y + THUMB_SIZE + 4, { align: 'center' });
+                    x += THUMB_SIZE + 4;
+                }
+            }
+        }
+    }
+
+    return doc.output('blob');
+};
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SavedPose } from '../types';
+import { POSES_STORE, withStore, withImageLock, requestToPromise, dehydrateImages, hydrateImages, pruneUnreferencedImages } from './db';
+
+const POSE_SHEET_KEY = 'mari-fit:pose-sheet';
+const CARRY_POSES_KEY = 'mari-fit:carry-poses';
+
+const BUILT_IN_INSTRUCTIONS = [
+    'Slightly turned, 3/4 view',
+    'Side profile view',
+    'Walking towards camera',
+    'Leaning against a wall',
+    'Back view, looking over the shoulder',
+    'Hands in pockets, relaxed stance',
+];
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const BUILT_IN_POSES: SavedPose[] = BUILT_IN_INSTRUCTIONS.map(instruction => ({
+    id: `builtin-${slugify(instruction)}`,
+    instruction,
+    source: 'builtin',
+    thumbnailUrl: null,
+    createdAt: 0,
+}));
+
+/** The poses a new pose sheet generates until the user picks their own. */
+export const DEFAULT_POSE_SHEET = BUILT_IN_INSTRUCTIONS.slice(0, 4);
+
+const normalizeInstruction = (instruction: string) => instruction.trim().toLowerCase();
+
+export const findPose = (library: SavedPose[], instruction: string): SavedPose | undefined =>
+    library.find(pose => normalizeInstruction(pose.instruction) === normalizeInstruction(instruction));
+
+/**
+ * Built-in poses followed by the user's own, oldest first. The store also holds
+ * built-in poses once they have a thumbnail; those records replace the defaults.
+ */
+export const listPoseLibrary = async (): Promise<SavedPose[]> => {
+    const records = await withStore(POSES_STORE, 'readonly', store => requestToPromise(store.getAll()));
+    const stored = await hydrateImages<SavedPose[]>(records);
+    const builtIns = BUILT_IN_POSES.map(pose => stored.find(record => record.id === pose.id) ?? pose);
+    const custom = stored.filter(record => record.source === 'custom').sort((a, b) => a.createdAt - b.createdAt);
+    return [...builtIns, ...custom];
+};
+
+const savePose = (pose: SavedPose): Promise<void> => withImageLock(async () => {
+    const record = await dehydrateImages(pose);
+    await withStore(POSES_STORE, 'readwrite', store => { store.put(record); });
+});
+
+/**
+ * Records that `instruction` was generated as `imageUrl`. Unknown instructions
+ * become custom poses; poses without a thumbnail get this image as theirs.
+ * Returns the updated pose, or null when nothing changed.
+ */
+export const rememberPose = async (library: SavedPose[], instruction: string, imageUrl: string): Promise<SavedPose | null> => {
+    const existing = findPose(library, instruction);
+    if (existing?.thumbnailUrl) return null;
+    const pose: SavedPose = existing
+        ? { ...existing, thumbnailUrl: imageUrl }
+        : {
+            id: `pose-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            instruction: instruction.trim(),
+            source: 'custom',
+            thumbnailUrl: imageUrl,
+            createdAt: Date.now(),
+        };
+    await savePose(pose);
+    return pose;
+};
+
+/** Deletes a custom pose. Built-in poses cannot be removed. */
+export const deleteCustomPose = async (id: string): Promise<void> => {
+    await withStore(POSES_STORE, 'readwrite', store => { store.delete(id); });
+    await pruneUnreferencedImages();
+};
+
+export const getPoseSheet = (): string[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(POSE_SHEET_KEY) ?? 'null');
+        return Array.isArray(stored) && stored.every(item => typeof item === 'string') ? stored : DEFAULT_POSE_SHEET;
+    } catch {
+        return DEFAULT_POSE_SHEET;
+    }
+};
+
+export const setPoseSheet = (instructions: string[]) => {
+    try {
+        localStorage.setItem(POSE_SHEET_KEY, JSON.stringify(instructions));
+    } catch {
+        // Storage can be unavailable (e.g. private mode); the sheet then resets on reload.
+    }
+};
+
+/** Whether a new outfit layer regenerates the poses of the layer it was built on. Off by default. */
+export const getCarryPosesOver = (): boolean => {
+    try {
+        return localStorage.getItem(CARRY_POSES_KEY) === 'true';
+    } catch {
+        return false;
+    }
+};
+
+export const setCarryPosesOver = (enabled: boolean) => {
+    try {
+        localStorage.setItem(CARRY_POSES_KEY, String(enabled));
+    } catch {
+        // Storage can be unavailable (e.g. private mode); the option then resets on reload.
+    }
+};
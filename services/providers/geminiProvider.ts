@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, Modality, Part } from "@google/genai";
+import type { BodyAdjustment, ColorSwatch, GarmentCategory, ModelCreationMode, ModelCreationSettings } from '../../types';
+import type { CandidateRequest, LookGarment, ProviderImage, SceneRequest, TryOnProvider } from './tryOnProvider';
+import { buildLookPrompt, buildModelPrompt, buildTryOnPrompt } from './tryOnPrompts';
+import { describeBodyAdjustment } from '../../lib/bodyAdjustments';
+import { validateGeneratedImage } from './imageValidation';
+
+// Use the standard gemini-2.5-flash model for a more generous rate limit.
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+interface GeminiProviderOptions {
+    apiKey: string | undefined;
+    model?: string;
+}
+
+// Encodes via `arrayBuffer` + `btoa` rather than FileReader so the provider also
+// runs under Node, where the API proxy server uses it.
+const fileToPart = async (file: File) => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return { inlineData: { mimeType: file.type || 'application/octet-stream', data: btoa(binary) } };
+};
+
+const dataUrlToParts = (dataUrl: string) => {
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+    return { mimeType: mimeMatch[1], data: arr[1] };
+}
+
+const dataUrlToPart = (dataUrl: string) => {
+    const { mimeType, data } = dataUrlToParts(dataUrl);
+    return { inlineData: { mimeType, data } };
+}
+
+interface CandidateImage {
+    imageUrl: string;
+    finishReason: string | null;
+}
+
+/**
+ * The valid image of every candidate, in the order returned. A candidate whose
+ * image fails validation is skipped; if none pass, the first failure is thrown.
+ */
+const handleApiResponse = (response: GenerateContentResponse): CandidateImage[] => {
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        throw new Error(errorMessage);
+    }
+
+    const images: CandidateImage[] = [];
+    let validationError: unknown = null;
+    for (const candidate of response.candidates ?? []) {
+        const imagePart = candidate.content?.parts?.find(part => part.inlineData);
+        if (!imagePart?.inlineData) continue;
+        try {
+            images.push({
+                imageUrl: validateGeneratedImage(imagePart.inlineData.mimeType, imagePart.inlineData.data),
+                finishReason: candidate.finishReason ?? null,
+            });
+        } catch (err) {
+            validationError ??= err;
+        }
+    }
+    if (images.length > 0) return images;
+    if (validationError) throw validationError;
+
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const errorMessage = `Image generation stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
+        throw new Error(errorMessage);
+    }
+    const textFeedback = response.text?.trim();
+    const errorMessage = `The AI model did not return an image. ` + (textFeedback ? `The model responded with text: "${textFeedback}"` : "This can happen due to safety filters or if the request is too complex. Please try a different image.");
+    throw new Error(errorMessage);
+};
+
+/**
+ * Creates a provider backed by the Gemini API. Without an API key the provider
+ * is still created, but every operation rejects with a configuration error.
+ */
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: GeminiProviderOptions): TryOnProvider => {
+    const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+    if (!ai) {
+        // Log an error to the console for developers. The user will see a UI error on API call.
+        console.error("Gemini API key not found. Please set the VITE_API_KEY environment variable, or GEMINI_API_KEY for the API server.");
+    }
+
+    /**
+     * Checks if the GoogleGenAI instance is initialized.
+     * @returns The initialized GoogleGenAI instance.
+     * @throws An error if the instance is not initialized.
+     */
+    const getInitializedAi = (): GoogleGenAI => {
+        if (!ai) {
+            throw new Error("Gemini API is not initialized. Make sure the API_KEY environment variable is set.");
+        }
+        return ai;
+    };
+
+    const requestImages = async (parts: Part[], signal?: AbortSignal): Promise<ProviderImage[]> => {
+        const response = await getInitializedAi().models.generateContent({
+            model,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: signal,
+            },
+        });
+        const prompt = parts.map(part => part.text).filter(Boolean).join('\n\n');
+        return handleApiResponse(response).map(({ imageUrl, finishReason }) => ({ imageUrl, model, prompt, finishReason }));
+    };
+
+    // Several results are requested as parallel single-image calls, since not
+    // every image model accepts a candidate count. Calls that fail are left out;
+    // only when all of them fail is the first error thrown.
+    const generateImages = async (parts: Part[], count: number, signal?: AbortSignal): Promise<ProviderImage[]> => {
+        const results = await Promise.allSettled(Array.from({ length: Math.max(1, count) }, () => requestImages(parts, signal)));
+        const images = results.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+        if (images.length > 0) return images;
+        throw (results[0] as PromiseRejectedResult).reason;
+    };
+
+    const generateImage = async (parts: Part[], signal?: AbortSignal): Promise<ProviderImage> =>
+        (await generateImages(parts, 1, signal))[0];
+
+    const tryOnParts = async (modelImageUrl: string, garmentImage: File, garmentCategory: GarmentCategory, modelMode: ModelCreationMode): Promise<Part[]> =>
+        [dataUrlToPart(modelImageUrl), await fileToPart(garmentImage), { text: buildTryOnPrompt(garmentCategory, modelMode) }];
+
+    const lookParts = async (modelImageUrl: string, garments: LookGarment[], modelMode: ModelCreationMode): Promise<Part[]> => [
+        dataUrlToPart(modelImageUrl),
+        ...await Promise.all(garments.map(garment => fileToPart(garment.image))),
+        { text: buildLookPrompt(garments.map(garment => garment.category), modelMode) },
+    ];
+
+    const poseParts = (baseImageUrl: string, poseInstruction: string): Part[] => [
+        dataUrlToPart(baseImageUrl),
+        { text: `Carefully analyze the provided image. Your task is to regenerate the image with the person in a new pose as described, while maintaining their identity, clothing, and the background style.
+
+**Instructions:**
+1.  **Preserve Identity:** Do NOT change the person's face, hair, or distinct features. Their identity must remain the same.
+2.  **Maintain Appearance:** Keep the person's clothing and the style of the background consistent with the original image.
+3.  **Change Pose:** Modify the person's pose to: "${poseInstruction}".
+4.  **Output:** Return only the newly generated photorealistic image.` },
+    ];
+
+    const candidateParts = (request: CandidateRequest): Promise<Part[]> | Part[] => {
+        switch (request.kind) {
+            case 'try-on':
+                return tryOnParts(request.modelImageUrl, request.garmentImage, request.garmentCategory, request.modelMode);
+            case 'look':
+                return lookParts(request.modelImageUrl, request.garments, request.modelMode);
+            case 'pose':
+                return poseParts(request.baseImageUrl, request.poseInstruction);
+        }
+    };
+
+    return {
+        name: 'gemini',
+
+        generateModelImage: async (userImage: File, settings: ModelCreationSettings, signal?: AbortSignal): Promise<ProviderImage> => {
+            const userImagePart = await fileToPart(userImage);
+            const prompt = buildModelPrompt(settings);
+            return generateImage([userImagePart, { text: prompt }], signal);
+        },
+
+        generateVirtualTryOnImage: async (modelImageUrl: string, garmentImage: File, garmentCategory: GarmentCategory, modelMode: ModelCreationMode, signal?: AbortSignal): Promise<ProviderImage> =>
+            generateImage(await tryOnParts(modelImageUrl, garmentImage, garmentCategory, modelMode), signal),
+
+        generateLookImage: async (modelImageUrl: string, garments: LookGarment[], modelMode: ModelCreationMode, signal?: AbortSignal): Promise<ProviderImage> =>
+            generateImage(await lookParts(modelImageUrl, garments, modelMode), signal),
+
+        generatePoseVariation: async (baseImageUrl: string, poseInstruction: string, signal?: AbortSignal): Promise<ProviderImage> =>
+            generateImage(poseParts(baseImageUrl, poseInstruction), signal),
+
+        generateCandidates: async (request: CandidateRequest, count: number, signal?: AbortSignal): Promise<ProviderImage[]> =>
+            generateImages(await candidateParts(request), count, signal),
+
+        adjustBodyShape: async (baseImageUrl: string, adjustment: BodyAdjustment, signal?: AbortSignal): Promise<ProviderImage> => {
+            const baseImagePart = dataUrlToPart(baseImageUrl);
+            const prompt = `You are a precise AI photo editor. The user wants to adjust the physique of the person in the image.
+
+**Adjustments:**
+${describeBodyAdjustment(adjustment).map(change => `*   ${change}`).join('\n')}
+
+**Instructions:**
+1.  **Scale:** "Slightly" is a subtle change; "noticeably" is clearly visible but still natural. Every change MUST be photorealistic with plausible anatomy.
+2.  **Independence:** Apply only the listed adjustments. Any attribute that is not listed (height, shoulder width, build, muscle tone, posture) stays exactly as it is.
+3.  **Height impression:** Change it through proportions (leg length, neck, stance), never by cropping or rescaling the whole photo.
+4.  **NON-NEGOTIABLE:** Do NOT change the face, hair, clothing, lighting, framing or background. The person's identity must remain the same.
+
+Return ONLY the edited image.`;
+            return generateImage([baseImagePart, { text: prompt }], signal);
+        },
+
+        generateSceneVariation: async (baseImageUrl: string, scene: SceneRequest, signal?: AbortSignal): Promise<ProviderImage> => {
+            const baseImagePart = dataUrlToPart(baseImageUrl);
+            const backgroundPart = scene.backgroundImage ? await fileToPart(scene.backgroundImage) : null;
+            const setting = backgroundPart
+                ? 'the second image. Use that photo as the background, keeping its content and perspective'
+                : `this setting: "${scene.description}"`;
+            const prompt = `You are an expert fashion photographer and retoucher. Place the person from the first image into ${setting}.
+
+**Instructions:**
+1.  **Preserve the Person:** Do NOT change the person's face, hair, body, pose, or any part of their outfit. Every garment and accessory must stay exactly as it is.
+2.  **Replace the Scene:** Replace everything behind the person with the new scene. Nothing of the original backdrop may remain.
+3.  **Integrate Naturally:** Match the lighting direction, color temperature and shadows on the person to the new scene, with a natural contact shadow where they stand. Keep the person at a realistic scale for the scene.
+4.  **Framing:** Keep the person fully in frame at the same size and position as in the original image.
+5.  **Output:** Return ONLY the final photorealistic image.`;
+            const parts = backgroundPart ? [baseImagePart, backgroundPart, { text: prompt }] : [baseImagePart, { text: prompt }];
+            return generateImage(parts, signal);
+        },
+
+        recolorGarment: async (garmentImage: File, color: ColorSwatch, signal?: AbortSignal): Promise<ProviderImage> => {
+            const garmentImagePart = await fileToPart(garmentImage);
+            const prompt = `You are an expert product photo retoucher. Recolor the garment in the provided product image to ${color.name} (hex ${color.hex}).
+
+**Instructions:**
+1.  **Main Color Only:** Change the garment's main fabric color to the target. Keep hardware, logos, stitching and trims (zippers, buttons, labels) as they are.
+2.  **Preserve Material:** Keep the fabric texture, folds, shading and highlights. The new color must respond to the lighting the same way the original did.
+3.  **Patterns:** If the fabric is patterned, keep the pattern layout and shift its dominant color to the target.
+4.  **NON-NEGOTIABLE:** Do NOT change the garment's shape, the framing or the background.
+
+Return ONLY the edited image.`;
+            return generateImage([garmentImagePart, { text: prompt }], signal);
+        },
+    };
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Checks generated images before they are accepted. Works on the raw bytes
+// rather than decoding through the DOM, so the API server can use it too.
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/** Anything smaller is a thumbnail or a broken render, not a usable try-on. */
+export const MIN_IMAGE_SIDE = 256;
+
+interface ImageSize {
+    width: number;
+    height: number;
+}
+
+const base64ToBytes = (data: string): Uint8Array => {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const readUint16 = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const readUint32 = (bytes: Uint8Array, offset: number) => ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+const readUint16LE = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+const readUint24LE = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const readPngSize = (bytes: Uint8Array): ImageSize | null => {
+    // Signature, then the IHDR chunk: length, type, width, height.
+    if (bytes.length < 24 || bytes[0] !== 0x89 || bytes[1] !== 0x50 || bytes[2] !== 0x4e || bytes[3] !== 0x47) return null;
+    return { width: readUint32(bytes, 16), height: readUint32(bytes, 20) };
+};
+
+const readJpegSize = (bytes: Uint8Array): ImageSize | null => {
+    if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1];
+        // Start-of-frame markers carry the size; DHT, JPG and DAC share the range but don't.
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { width: readUint16(bytes, offset + 7), height: readUint16(bytes, offset + 5) };
+        }
+        offset += 2 + readUint16(bytes, offset + 2);
+    }
+    return null;
+};
+
+const readWebpSize = (bytes: Uint8Array): ImageSize | null => {
+    const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    if (bytes.length < 30 || tag(0) !== 'RIFF' || tag(8) !== 'WEBP') return null;
+    switch (tag(12)) {
+        case 'VP8 ':
+            return { width: readUint16LE(bytes, 26) & 0x3fff, height: readUint16LE(bytes, 28) & 0x3fff };
+        case 'VP8L': {
+            const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        case 'VP8X':
+            return { width: readUint24LE(bytes, 24) + 1, height: readUint24LE(bytes, 27) + 1 };
+        default:
+            return null;
+    }
+};
+
+/** The pixel size stored in a PNG, JPEG or WebP header, or null if the header can't be read. */
+export const readImageSize = (bytes: Uint8Array): ImageSize | null =>
+    readPngSize(bytes) ?? readJpegSize(bytes) ?? readWebpSize(bytes);
+
+/**
+ * Accepts one generated image and returns it as a data URL. Throws when the
+ * MIME type isn't a supported image type, the data is empty, or the header
+ * doesn't describe an image of a usable size.
+ */
+export const validateGeneratedImage = (mimeType: string | undefined, data: string | undefined): string => {
+    if (!mimeType || !ACCEPTED_IMAGE_TYPES.includes(mimeType)) {
+        throw new Error(`The AI model returned an unsupported file type (${mimeType || 'unknown'}).`);
+    }
+    if (!data) {
+        throw new Error('The AI model returned an empty image.');
+    }
+    let size: ImageSize | null;
+    try {
+        size = readImageSize(base64ToBytes(data));
+    } catch {
+        size = null;
+    }
+    if (!size) {
+        throw new Error('The AI model returned an image that could not be read.');
+    }
+    if (size.width < MIN_IMAGE_SIDE || size.height < MIN_IMAGE_SIDE) {
+        throw new Error(`The AI model returned an image that is too small (${size.width}x${size.height}).`);
+    }
+    return `data:${mimeType};base64,${data}`;
+};
@@ -0,0 +1,267 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BodyAdjustment, ColorSwatch, GarmentCategory, ModelCreationMode, ModelCreationSettings } from '../../types';
+import type { CandidateRequest, LookGarment, ProviderImage, SceneRequest, TryOnProvider } from './tryOnProvider';
+import { sleep } from '../retry';
+import { describeBodyAdjustment } from '../../lib/bodyAdjustments';
+
+// Offline provider for UI development. It never calls a network service:
+// every operation composites its inputs on a canvas, so the same inputs always
+// produce the same output image.
+
+const OUTPUT_WIDTH = 600;
+const OUTPUT_HEIGHT = 900;
+
+interface MockProviderOptions {
+    /** Artificial delay per operation, to exercise loading states. */
+    latencyMs?: number;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Mock provider could not decode the input image.'));
+        image.src = src;
+    });
+};
+
+const loadFileImage = async (file: File): Promise<HTMLImageElement> => {
+    const url = URL.createObjectURL(file);
+    try {
+        return await loadImage(url);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+// Simple string hash (FNV-1a) used to derive stable per-input variations.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const createCanvas = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = OUTPUT_WIDTH;
+    canvas.height = OUTPUT_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context.');
+    }
+    return { canvas, ctx };
+};
+
+/** Draws `image` scaled to cover the rectangle, cropping the overflow. */
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const sw = width / scale;
+    const sh = height / scale;
+    const sx = (image.naturalWidth - sw) / 2;
+    const sy = (image.naturalHeight - sh) / 2;
+    ctx.drawImage(image, sx, sy, sw, sh, x, y, width, height);
+};
+
+/** Draws `image` scaled to fit inside the rectangle, centered. */
+const drawContain = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+    const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+    const w = image.naturalWidth * scale;
+    const h = image.naturalHeight * scale;
+    ctx.drawImage(image, x + (width - w) / 2, y + (height - h) / 2, w, h);
+};
+
+// Where each category of item is drawn, as fractions of the output size:
+// [x, y, width, height].
+const PLACEMENT: Record<GarmentCategory, [number, number, number, number]> = {
+    top: [0.25, 0.22, 0.5, 0.3],
+    bottom: [0.28, 0.48, 0.44, 0.38],
+    dress: [0.25, 0.22, 0.5, 0.55],
+    outerwear: [0.2, 0.2, 0.6, 0.42],
+    shoes: [0.3, 0.86, 0.4, 0.1],
+    hat: [0.35, 0.02, 0.3, 0.12],
+    eyewear: [0.4, 0.1, 0.2, 0.06],
+    bag: [0.68, 0.45, 0.25, 0.2],
+    jewelry: [0.43, 0.19, 0.14, 0.07],
+    accessory: [0.7, 0.3, 0.2, 0.15],
+};
+
+const drawGarment = (ctx: CanvasRenderingContext2D, garment: HTMLImageElement, category: GarmentCategory) => {
+    const [x, y, width, height] = PLACEMENT[category];
+    ctx.save();
+    ctx.globalAlpha = 0.9;
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+    ctx.shadowBlur = 12;
+    drawContain(ctx, garment, OUTPUT_WIDTH * x, OUTPUT_HEIGHT * y, OUTPUT_WIDTH * width, OUTPUT_HEIGHT * height);
+    ctx.restore();
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string) => {
+    ctx.save();
+    ctx.font = '600 18px Inter, sans-serif';
+    const label = `MOCK · ${text}`.slice(0, 60);
+    const width = ctx.measureText(label).width + 24;
+    ctx.fillStyle = 'rgba(17, 24, 39, 0.75)';
+    ctx.fillRect(12, OUTPUT_HEIGHT - 48, width, 34);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(label, 24, OUTPUT_HEIGHT - 25);
+    ctx.restore();
+};
+
+// Every image is drawn locally; no model is prompted.
+const toMockImage = (canvas: HTMLCanvasElement): ProviderImage => ({
+    imageUrl: canvas.toDataURL('image/png'),
+    model: 'mock',
+    prompt: '',
+    finishReason: null,
+});
+
+const createMockOperations = ({ latencyMs = 600 }: MockProviderOptions): Omit<TryOnProvider, 'generateCandidates'> => ({
+    name: 'mock',
+
+    generateModelImage: async (userImage: File, settings: ModelCreationSettings, signal?: AbortSignal): Promise<ProviderImage> => {
+        const [image] = await Promise.all([loadFileImage(userImage), sleep(latencyMs, signal)]);
+        const { canvas, ctx } = createCanvas();
+        ctx.fillStyle = '#f3f4f6';
+        ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        // Only the athletic mode changes the body, so only it alters the photo.
+        if (settings.mode === 'athletic') ctx.filter = 'contrast(1.1)';
+        drawContain(ctx, image, 0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        ctx.filter = 'none';
+        drawLabel(ctx, settings.mode === 'custom' ? `model · ${settings.customPrompt ?? ''}` : `${settings.mode} model`);
+        return toMockImage(canvas);
+    },
+
+    generateVirtualTryOnImage: async (modelImageUrl: string, garmentImage: File, garmentCategory: GarmentCategory, _modelMode: ModelCreationMode, signal?: AbortSignal): Promise<ProviderImage> => {
+        const [model, garment] = await Promise.all([loadImage(modelImageUrl), loadFileImage(garmentImage), sleep(latencyMs, signal)]);
+        const { canvas, ctx } = createCanvas();
+        drawCover(ctx, model, 0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        drawGarment(ctx, garment, garmentCategory);
+        drawLabel(ctx, garmentImage.name || 'garment');
+        return toMockImage(canvas);
+    },
+
+    generateLookImage: async (modelImageUrl: string, garments: LookGarment[], _modelMode: ModelCreationMode, signal?: AbortSignal): Promise<ProviderImage> => {
+        const [model, images] = await Promise.all([
+            loadImage(modelImageUrl),
+            Promise.all(garments.map(garment => loadFileImage(garment.image))),
+            sleep(latencyMs, signal),
+        ]);
+        const { canvas, ctx } = createCanvas();
+        drawCover(ctx, model, 0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        // Innermost first, so outer layers are drawn over the ones beneath.
+        images.forEach((image, i) => drawGarment(ctx, image, garments[i].category));
+        drawLabel(ctx, `look · ${garments.map(garment => garment.image.name || 'garment').join(' + ')}`);
+        return toMockImage(canvas);
+    },
+
+    generatePoseVariation: async (baseImageUrl: string, poseInstruction: string, signal?: AbortSignal): Promise<ProviderImage> => {
+        const [base] = await Promise.all([loadImage(baseImageUrl), sleep(latencyMs, signal)]);
+        const { canvas, ctx } = createCanvas();
+        const hash = hashString(poseInstruction);
+        // Derive a stable mirror, tilt and hue shift from the instruction text.
+        const mirror = hash % 2 === 1;
+        const tilt = (((hash >> 1) % 11) - 5) * (Math.PI / 180);
+        const hue = (hash >> 5) % 40 - 20;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        ctx.save();
+        ctx.translate(OUTPUT_WIDTH / 2, OUTPUT_HEIGHT / 2);
+        ctx.rotate(tilt);
+        if (mirror) ctx.scale(-1, 1);
+        ctx.filter = `hue-rotate(${hue}deg)`;
+        drawCover(ctx, base, -OUTPUT_WIDTH / 2, -OUTPUT_HEIGHT / 2, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        ctx.restore();
+        drawLabel(ctx, poseInstruction);
+        return toMockImage(canvas);
+    },
+
+    adjustBodyShape: async (baseImageUrl: string, adjustment: BodyAdjustment, signal?: AbortSignal): Promise<ProviderImage> => {
+        const [base] = await Promise.all([loadImage(baseImageUrl), sleep(latencyMs, signal)]);
+        const { canvas, ctx } = createCanvas();
+        const { height = 0, shoulders = 0, build = 0, muscleTone = 0, posture = 0 } = adjustment;
+        // Stretch and tilt the image about its center so each attribute has a visible effect.
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        ctx.save();
+        ctx.translate(OUTPUT_WIDTH / 2, OUTPUT_HEIGHT / 2);
+        ctx.rotate(-posture * (Math.PI / 180));
+        ctx.scale(1 + (shoulders + build) * 0.03, 1 + height * 0.03);
+        ctx.filter = `contrast(${1 + muscleTone * 0.08})`;
+        drawCover(ctx, base, -OUTPUT_WIDTH / 2, -OUTPUT_HEIGHT / 2, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        ctx.restore();
+        drawLabel(ctx, describeBodyAdjustment(adjustment).join(', ') || 'no change');
+        return toMockImage(canvas);
+    },
+
+    generateSceneVariation: async (baseImageUrl: string, scene: SceneRequest, signal?: AbortSignal): Promise<ProviderImage> => {
+        const [base, background] = await Promise.all([
+            loadImage(baseImageUrl),
+            scene.backgroundImage ? loadFileImage(scene.backgroundImage) : Promise.resolve(null),
+            sleep(latencyMs, signal),
+        ]);
+        const { canvas, ctx } = createCanvas();
+        if (background) {
+            drawCover(ctx, background, 0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        } else {
+            // A stable backdrop color per description stands in for the scene.
+            ctx.fillStyle = `hsl(${hashString(scene.description) % 360}, 45%, 70%)`;
+            ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        }
+        // Without segmentation, multiply keeps the person visible over the backdrop.
+        ctx.globalCompositeOperation = 'multiply';
+        drawContain(ctx, base, OUTPUT_WIDTH * 0.1, OUTPUT_HEIGHT * 0.1, OUTPUT_WIDTH * 0.8, OUTPUT_HEIGHT * 0.85);
+        ctx.globalCompositeOperation = 'source-over';
+        drawLabel(ctx, scene.description);
+        return toMockImage(canvas);
+    },
+
+    recolorGarment: async (garmentImage: File, color: ColorSwatch, signal?: AbortSignal): Promise<ProviderImage> => {
+        const [garment] = await Promise.all([loadFileImage(garmentImage), sleep(latencyMs, signal)]);
+        const { canvas, ctx } = createCanvas();
+        drawContain(ctx, garment, 0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        // Take hue and saturation from the target color and keep the garment's
+        // luminance, then clip back to the garment's own pixels.
+        ctx.globalCompositeOperation = 'color';
+        ctx.fillStyle = color.hex;
+        ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        ctx.globalCompositeOperation = 'destination-in';
+        drawContain(ctx, garment, 0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+        ctx.globalCompositeOperation = 'source-over';
+        drawLabel(ctx, color.name);
+        return toMockImage(canvas);
+    },
+});
+
+export const createMockProvider = (options: MockProviderOptions = {}): TryOnProvider => {
+    const operations = createMockOperations(options);
+    return {
+        ...operations,
+
+        // Renders the result once and derives the alternatives from it with
+        // stable hue shifts, so the picker has something to choose between.
+        generateCandidates: async (request: CandidateRequest, count: number, signal?: AbortSignal): Promise<ProviderImage[]> => {
+            const first = await (
+                request.kind === 'try-on' ? operations.generateVirtualTryOnImage(request.modelImageUrl, request.garmentImage, request.garmentCategory, request.modelMode, signal)
+                : request.kind === 'look' ? operations.generateLookImage(request.modelImageUrl, request.garments, request.modelMode, signal)
+                : operations.generatePoseVariation(request.baseImageUrl, request.poseInstruction, signal)
+            );
+            const image = await loadImage(first.imageUrl);
+            const alternatives = Array.from({ length: Math.max(0, count - 1) }, (_, i) => {
+                const { canvas, ctx } = createCanvas();
+                ctx.filter = `hue-rotate(${(i + 1) * 30}deg)`;
+                ctx.drawImage(image, 0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+                ctx.filter = 'none';
+                drawLabel(ctx, `candidate ${i + 2}`);
+                return toMockImage(canvas);
+            });
+            return [first, ...alternatives];
+        },
+    };
+};
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BodyAdjustment, ColorSwatch, GarmentCategory, ModelCreationMode, ModelCreationSettings } from '../../types';
+import type { CandidateRequest, GenerationDetails, LookGarment, ProviderImage, SceneRequest, TryOnProvider } from './tryOnProvider';
+import { MAX_GARMENT_NAME_LENGTH } from '../../wardrobe';
+
+// Client for the API proxy in server/index.ts. The proxy holds the Gemini API
+// key, so builds using this provider ship no credentials.
+
+interface ProxyProviderOptions {
+    /** Origin of the proxy server; empty means same origin as the app. */
+    baseUrl?: string;
+}
+
+const fileToDataUrl = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+};
+
+// Items saved before names were limited can have longer names than the server accepts.
+const garmentName = (file: File) => (file.name || 'garment').slice(0, MAX_GARMENT_NAME_LENGTH);
+
+// Request bodies shared by the single-result routes and /api/candidates.
+const tryOnFields = async (modelImageUrl: string, garmentImage: File, garmentCategory: GarmentCategory, modelMode: ModelCreationMode) => ({
+    modelImageUrl,
+    garmentImage: await fileToDataUrl(garmentImage),
+    garmentName: garmentName(garmentImage),
+    garmentCategory,
+    modelMode,
+});
+
+const lookFields = async (modelImageUrl: string, garments: LookGarment[], modelMode: ModelCreationMode) => ({
+    modelImageUrl,
+    garments: await Promise.all(garments.map(async garment => ({
+        garmentImage: await fileToDataUrl(garment.image),
+        garmentName: garmentName(garment.image),
+        garmentCategory: garment.category,
+    }))),
+    modelMode,
+});
+
+const candidateFields = (request: CandidateRequest): Promise<Record<string, unknown>> | Record<string, unknown> => {
+    switch (request.kind) {
+        case 'try-on':
+            return tryOnFields(request.modelImageUrl, request.garmentImage, request.garmentCategory, request.modelMode);
+        case 'look':
+            return lookFields(request.modelImageUrl, request.garments, request.modelMode);
+        case 'pose':
+            return { baseImageUrl: request.baseImageUrl, poseInstruction: request.poseInstruction };
+    }
+};
+
+// The server describes each image it returns; malformed details are recorded
+// as unknown rather than failing a generation that otherwise succeeded.
+const readDetails = (value: unknown): GenerationDetails => {
+    const details = value as Partial<GenerationDetails> | null;
+    if (typeof details?.model !== 'string' || typeof details.prompt !== 'string') return { model: 'unknown', prompt: '', finishReason: null };
+    return { model: details.model, prompt: details.prompt, finishReason: typeof details.finishReason === 'string' ? details.finishReason : null };
+};
+
+export const createProxyProvider = ({ baseUrl = '' }: ProxyProviderOptions = {}): TryOnProvider => {
+    const send = async (path: string, body: Record<string, unknown>, signal?: AbortSignal) => {
+        const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+            const error = payload?.error;
+            // Keep the status name (e.g. RESOURCE_EXHAUSTED) in the message so
+            // getFriendlyErrorMessage can recognise it.
+            const message = error?.message ?? `Request failed with status ${response.status}.`;
+            const requestError: Error & { retryAfterMs?: number } = new Error(error?.status ? `${error.status}: ${message}` : message);
+            const retryAfter = Number(response.headers.get('Retry-After'));
+            if (retryAfter > 0) {
+                requestError.retryAfterMs = retryAfter * 1000;
+            }
+            throw requestError;
+        }
+        return payload;
+    };
+
+    const post = async (path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<ProviderImage> => {
+        const payload = await send(path, body, signal);
+        if (typeof payload?.imageUrl !== 'string') {
+            throw new Error('The API server returned an invalid response.');
+        }
+        return { imageUrl: payload.imageUrl, ...readDetails(payload.details) };
+    };
+
+    return {
+        name: 'proxy',
+
+        generateModelImage: async (userImage: File, settings: ModelCreationSettings, signal?: AbortSignal): Promise<ProviderImage> =>
+            post('/api/model', { userImage: await fileToDataUrl(userImage), modelCreation: settings }, signal),
+
+        generateVirtualTryOnImage: async (modelImageUrl: string, garmentImage: File, garmentCategory: GarmentCategory, modelMode: ModelCreationMode, signal?: AbortSignal): Promise<ProviderImage> =>
+            post('/api/try-on', await tryOnFields(modelImageUrl, garmentImage, garmentCategory, modelMode), signal),
+
+        generateLookImage: async (modelImageUrl: string, garments: LookGarment[], modelMode: ModelCreationMode, signal?: AbortSignal): Promise<ProviderImage> =>
+            post('/api/look', await lookFields(modelImageUrl, garments, modelMode), signal),
+
+        generatePoseVariation: (baseImageUrl: string, poseInstruction: string, signal?: AbortSignal): Promise<ProviderImage> =>
+            post('/api/pose', { baseImageUrl, poseInstruction }, signal),
+
+        generateCandidates: async (request: CandidateRequest, count: number, signal?: AbortSignal): Promise<ProviderImage[]> => {
+            const payload = await send('/api/candidates', { kind: request.kind, count, ...await candidateFields(request) }, signal);
+            const imageUrls: unknown = payload?.imageUrls;
+            if (!Array.isArray(imageUrls) || imageUrls.length === 0 || !imageUrls.every(url => typeof url === 'string')) {
+                throw new Error('The API server returned an invalid response.');
+            }
+            const details: unknown[] = Array.isArray(payload.details) ? payload.details : [];
+            return imageUrls.map((imageUrl: string, i) => ({ imageUrl, ...readDetails(details[i]) }));
+        },
+
+        adjustBodyShape: (baseImageUrl: string, adjustment: BodyAdjustment, signal?: AbortSignal): Promise<ProviderImage> =>
+            post('/api/body-adjust', { baseImageUrl, adjustment }, signal),
+
+        generateSceneVariation: async (baseImageUrl: string, scene: SceneRequest, signal?: AbortSignal): Promise<ProviderImage> =>
+            post('/api/scene', {
+                baseImageUrl,
+                sceneDescription: scene.description,
+                backgroundImage: scene.backgroundImage ? await fileToDataUrl(scene.backgroundImage) : undefined,
+            }, signal),
+
+        recolorGarment: async (garmentImage: File, color: ColorSwatch, signal?: AbortSignal): Promise<ProviderImage> =>
+            post('/api/recolor', {
+                garmentImage: await fileToDataUrl(garmentImage),
+                garmentName: garmentName(garmentImage),
+                colorName: color.name,
+                colorHex: color.hex,
+            }, signal),
+    };
+};
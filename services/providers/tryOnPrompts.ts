@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentCategory, ModelCreationMode, ModelCreationSettings } from '../../types';
+import { isAccessoryCategory } from '../../wardrobe';
+
+// Where each kind of item goes on the body and what must survive placing it.
+// A single generic prompt tends to render accessories as clothing or drop them.
+const PLACEMENT_RULES: Record<GarmentCategory, string[]> = {
+    top: [
+        'The top is worn on the upper body. Tuck it in or leave it out the way its cut suggests.',
+        'Replace only the existing top; keep the bottoms, shoes and accessories visible as they are.',
+    ],
+    bottom: [
+        'The bottoms are worn from the waist down. Match the waistline to the model\'s natural waist.',
+        'Replace only the existing bottoms; keep the top, shoes and accessories as they are.',
+    ],
+    dress: [
+        'The dress replaces both the top and the bottoms. Keep its length relative to the body true to the product image.',
+    ],
+    outerwear: [
+        'The outerwear is layered OVER the current clothing. The clothing underneath must stay visible where the outerwear is open.',
+    ],
+    shoes: [
+        'The shoes go on the feet. Both feet must be visible and the shoes must sit flat on the ground in the pose.',
+        'Do not change the legs or the hem of the bottoms beyond what the shoes naturally cover.',
+    ],
+    hat: [
+        'The hat goes on the head, sitting at a natural depth over the crown.',
+        'Preserve the hair silhouette: hair visible below the brim keeps its length, color and style.',
+        'The face must stay fully visible; the brim may cast a soft shadow but must not hide the eyes.',
+    ],
+    eyewear: [
+        'The eyewear sits on the face, resting on the bridge of the nose and over the ears, with the lenses centered on the eyes.',
+        'Keep the face shape, eyebrows and skin unchanged. Tinted lenses may darken the eyes, clear lenses must not.',
+    ],
+    bag: [
+        'The bag is carried: in the hand, on the shoulder or crossbody, whichever its handles or strap length suggest.',
+        'Straps rest on top of the clothing with realistic tension. Keep the hand and arm anatomy natural.',
+    ],
+    jewelry: [
+        'Place each piece where it is worn: necklaces at the neckline, earrings on the earlobes, bracelets and watches on the wrist, rings on the fingers.',
+        'Keep the jewelry at its true, small scale, with reflections matching the lighting. Do not resize or restyle it.',
+    ],
+    accessory: [
+        'Place the accessory where it is normally worn, at a realistic scale.',
+    ],
+};
+
+// A faithful model shows the user's real body. Try-ons must not quietly
+// idealize it, which they tend to do when fitting tight garments.
+const bodyRule = (modelMode: ModelCreationMode) => modelMode === 'faithful'
+    ? 'Do NOT alter the model\'s face, body shape, proportions, pose, or the background. The garment fits the body as it is; never slim, tone or reshape the body to suit the garment.'
+    : 'Do NOT alter the model\'s face, body, pose, or the background.';
+
+const apparelPrompt = (category: GarmentCategory, modelMode: ModelCreationMode) => `You are an expert AI fashion stylist. Your task is to realistically place the provided garment onto the person in the model image.
+
+**Instructions:**
+1.  **Analyze both images:** Carefully examine the model's pose, body shape, and the lighting in their photo. Also, analyze the garment's shape, texture, and how it drapes.
+2.  **Apply the Garment:** Seamlessly fit the garment onto the model. It must look natural, with realistic folds, shadows, and highlights that match the lighting on the model.
+3.  **Placement:**
+${PLACEMENT_RULES[category].map(rule => `    *   ${rule}`).join('\n')}
+4.  **Preserve Identity & Pose:** ${bodyRule(modelMode)} Only add the garment.
+5.  **Output:** Return only the final photorealistic image of the model wearing the garment.`;
+
+const accessoryPrompt = (category: GarmentCategory, modelMode: ModelCreationMode) => `You are an expert AI fashion stylist. Your task is to add the provided accessory to the person in the model image.
+
+**Instructions:**
+1.  **It is an accessory, not clothing:** Do NOT replace, recolor or restyle any of the clothing the model is wearing. The accessory is added on top of the existing outfit.
+2.  **Placement:**
+${PLACEMENT_RULES[category].map(rule => `    *   ${rule}`).join('\n')}
+3.  **Realism:** Match the perspective, scale and lighting of the model photo, with natural contact shadows where the accessory touches the body.
+4.  **Preserve Identity & Pose:** Keep the hair as it is. ${bodyRule(modelMode)}
+5.  **Output:** Return only the final photorealistic image of the model wearing the accessory.`;
+
+/** The try-on prompt for an item of the given category, on a model created in `modelMode`. */
+export const buildTryOnPrompt = (category: GarmentCategory, modelMode: ModelCreationMode): string =>
+    isAccessoryCategory(category) ? accessoryPrompt(category, modelMode) : apparelPrompt(category, modelMode);
+
+const CATEGORY_NAMES: Record<GarmentCategory, string> = {
+    top: 'top',
+    bottom: 'bottoms',
+    dress: 'dress',
+    outerwear: 'outerwear',
+    shoes: 'shoes',
+    hat: 'hat',
+    eyewear: 'eyewear',
+    bag: 'bag',
+    jewelry: 'jewelry',
+    accessory: 'accessory',
+};
+
+/**
+ * The prompt for dressing the model in a whole look at once. `categories`
+ * matches the garment images that follow the model image, innermost first.
+ */
+export const buildLookPrompt = (categories: GarmentCategory[], modelMode: ModelCreationMode): string => {
+    const items = categories.map((category, i) => `    *   Image ${i + 2}: the ${CATEGORY_NAMES[category]}${isAccessoryCategory(category) ? ' (an accessory, added on top of the outfit)' : ''}.`);
+    const rules = Array.from(new Set(categories)).flatMap(category => PLACEMENT_RULES[category])
+        // Rules about keeping the rest of the current outfit conflict with replacing all of it.
+        .filter(rule => !rule.startsWith('Replace only'));
+    return `You are an expert AI fashion stylist. Your task is to dress the person in the first image in the complete outfit made of the garments in the following images, all at once.
+
+**The outfit, in layering order from the innermost layer outwards:**
+${items.join('\n')}
+
+**Instructions:**
+1.  **Analyze all images:** Examine the model's pose, body shape and lighting, and the shape, texture and drape of every garment.
+2.  **Dress the Model:** Replace the model's current clothing with this outfit. Every garment must appear exactly once, fitted naturally with realistic folds, shadows and highlights. Later layers go over earlier ones; an inner layer stays visible where the layer over it is open or shorter.
+3.  **Placement:**
+${rules.map(rule => `    *   ${rule}`).join('\n')}
+4.  **Preserve Identity & Pose:** Keep the hair as it is. ${bodyRule(modelMode)}
+5.  **Output:** Return only the final photorealistic image of the model wearing the complete outfit.`;
+};
+
+const PHYSIQUE_RULES: Record<ModelCreationMode, (settings: ModelCreationSettings) => string> = {
+    faithful: () => 'Keep the body exactly as it is in the photo: the same height, proportions, weight and muscle tone. Do NOT slim, tone or idealize it in any way.',
+    athletic: () => 'Refine the body to a natural, amateur athletic build with a flat, toned stomach.',
+    custom: ({ customPrompt }) => `Apply the user's request to the body and styling: "${customPrompt?.trim() ?? ''}". Anything the request does not mention stays as it is in the photo.`,
+};
+
+/** The prompt that turns the user's photo into a model, for the chosen creation mode. */
+export const buildModelPrompt = (settings: ModelCreationSettings): string => `Objective: From the input image, create a photorealistic model of the person for a virtual fitting room.
+**CRITICAL RULES:**
+1.  **Identity:** The subject's face and hair MUST remain unchanged. Preserve their identity.
+2.  **Physique:** ${PHYSIQUE_RULES[settings.mode](settings)}
+3.  **Pose & Lighting:** Re-pose the subject in a natural 3/4 view with soft studio lighting.
+4.  **Output:** Return ONLY the final image.`;
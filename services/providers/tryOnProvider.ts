@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BodyAdjustment, ColorSwatch, GarmentCategory, ModelCreationMode, ModelCreationSettings } from '../../types';
+
+/** Where to put the person: a described setting, or a photo to use as the background. */
+export interface SceneRequest {
+    description: string;
+    backgroundImage?: File;
+}
+
+/** One garment of a look applied in a single generation. */
+export interface LookGarment {
+    image: File;
+    category: GarmentCategory;
+}
+
+/** What a backend knows about how it produced an image. */
+export interface GenerationDetails {
+    model: string;
+    /** The text instructions sent with the input images. */
+    prompt: string;
+    /** Why the model stopped, e.g. "STOP"; null when the backend doesn't say. */
+    finishReason: string | null;
+}
+
+/** A generated image, as a data URL, and how the backend produced it. */
+export interface ProviderImage extends GenerationDetails {
+    imageUrl: string;
+}
+
+/** Upper bound on alternative results for one generation. */
+export const MAX_CANDIDATES = 4;
+
+/** A generation the user can be offered several results of. */
+export type CandidateRequest =
+    | { kind: 'try-on'; modelImageUrl: string; garmentImage: File; garmentCategory: GarmentCategory; modelMode: ModelCreationMode }
+    | { kind: 'look'; modelImageUrl: string; garments: LookGarment[]; modelMode: ModelCreationMode }
+    | { kind: 'pose'; baseImageUrl: string; poseInstruction: string };
+
+/**
+ * A backend capable of the image operations the app needs. Every operation
+ * resolves to the generated image with its details and rejects with an `Error`
+ * whose message is suitable for `getFriendlyErrorMessage`. When `signal`
+ * aborts, the operation should stop its network work and reject promptly.
+ */
+export interface TryOnProvider {
+    /** Short identifier shown in logs and debug output, e.g. "gemini". */
+    readonly name: string;
+    generateModelImage(userImage: File, settings: ModelCreationSettings, signal?: AbortSignal): Promise<ProviderImage>;
+    /**
+     * `garmentCategory` selects the placement rules, e.g. a hat goes on the head over the hair.
+     * `modelMode` is how the model was created; a faithful model's body must not be reshaped.
+     */
+    generateVirtualTryOnImage(modelImageUrl: string, garmentImage: File, garmentCategory: GarmentCategory, modelMode: ModelCreationMode, signal?: AbortSignal): Promise<ProviderImage>;
+    /**
+     * Dresses the model in several garments with one generation. `garments` is
+     * in layering order, innermost first, e.g. a top before the jacket over it.
+     */
+    generateLookImage(modelImageUrl: string, garments: LookGarment[], modelMode: ModelCreationMode, signal?: AbortSignal): Promise<ProviderImage>;
+    generatePoseVariation(baseImageUrl: string, poseInstruction: string, signal?: AbortSignal): Promise<ProviderImage>;
+    /**
+     * Up to `count` alternative results of one generation. Fewer results, down
+     * to one, are fine when some attempts fail.
+     */
+    generateCandidates(request: CandidateRequest, count: number, signal?: AbortSignal): Promise<ProviderImage[]>;
+    /** `adjustment` is relative to the person in `baseImageUrl`; attributes it leaves out stay unchanged. */
+    adjustBodyShape(baseImageUrl: string, adjustment: BodyAdjustment, signal?: AbortSignal): Promise<ProviderImage>;
+    /** Places the person in a new scene, keeping their identity, outfit and pose. */
+    generateSceneVariation(baseImageUrl: string, scene: SceneRequest, signal?: AbortSignal): Promise<ProviderImage>;
+    /** Recolors a garment product image, keeping its shape, texture and background. */
+    recolorGarment(garmentImage: File, color: ColorSwatch, signal?: AbortSignal): Promise<ProviderImage>;
+}
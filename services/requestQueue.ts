@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    DEFAULT_RETRY_OPTIONS,
+    RequestCancelledError,
+    RetryOptions,
+    computeRetryDelayMs,
+    isTransientError,
+    sleep,
+} from './retry';
+
+export type QueueEntryStatus = 'queued' | 'running' | 'retrying';
+
+/**
+ * Foreground requests are ones the user is waiting on; background requests
+ * (pose carry-over, batch try-on) only start when no foreground request is
+ * waiting. A background request already running is not interrupted.
+ */
+export type QueuePriority = 'foreground' | 'background';
+
+/** Public, immutable view of a queued request, for display in the UI. */
+export interface QueueEntry {
+    id: number;
+    label: string;
+    priority: QueuePriority;
+    status: QueueEntryStatus;
+    /** 0 while running or waiting to retry, 1-based place in line while queued. */
+    position: number;
+    /** Rough wait until a queued request starts, from recent request durations; null when unknown. */
+    estimatedWaitMs: number | null;
+    /** The attempt currently running, or the next one while waiting to retry. */
+    attempt: number;
+    maxAttempts: number;
+    /** Epoch ms of the next attempt while status is "retrying". */
+    retryAt: number | null;
+    lastError: string | null;
+}
+
+interface InternalEntry {
+    id: number;
+    label: string;
+    priority: QueuePriority;
+    /** The caller's signal, for `findRequest`. */
+    callerSignal: AbortSignal | undefined;
+    status: QueueEntryStatus;
+    attempt: number;
+    retryAt: number | null;
+    lastError: string | null;
+    controller: AbortController;
+    task: (signal: AbortSignal) => Promise<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+interface RequestQueueOptions {
+    /** Requests allowed in flight at once; the rest wait in line. */
+    maxConcurrent?: number;
+    retry?: RetryOptions;
+}
+
+export interface QueuedRequest<T> {
+    id: number;
+    promise: Promise<T>;
+}
+
+// Rejects as soon as `signal` aborts, even if `promise` never settles.
+const raceWithAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+    if (signal.aborted) return Promise.reject(new RequestCancelledError());
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new RequestCancelledError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+// Durations of this many recent successful requests feed the wait estimate.
+const DURATION_SAMPLES = 10;
+
+/**
+ * Serialises generation requests and retries transient failures with
+ * exponential backoff. A request waiting to retry keeps its slot, so the
+ * requests behind it don't run into the same rate limit.
+ */
+export const createRequestQueue = ({ maxConcurrent = 1, retry = DEFAULT_RETRY_OPTIONS }: RequestQueueOptions = {}) => {
+    let nextId = 1;
+    let entries: InternalEntry[] = [];
+    let snapshot: QueueEntry[] = [];
+    const durations: number[] = [];
+    const listeners = new Set<() => void>();
+
+    // Queued requests in the order they will start: foreground first, then by arrival.
+    const waitingInOrder = () => [
+        ...entries.filter(entry => entry.status === 'queued' && entry.priority === 'foreground'),
+        ...entries.filter(entry => entry.status === 'queued' && entry.priority === 'background'),
+    ];
+
+    const notify = () => {
+        const waiting = waitingInOrder();
+        const active = entries.length - waiting.length;
+        const averageMs = durations.length > 0 ? durations.reduce((sum, ms) => sum + ms, 0) / durations.length : null;
+        snapshot = entries.map(entry => {
+            const position = entry.status === 'queued' ? waiting.indexOf(entry) + 1 : 0;
+            return {
+                id: entry.id,
+                label: entry.label,
+                priority: entry.priority,
+                status: entry.status,
+                position,
+                // Every request ahead, running or waiting, counts as one average duration.
+                estimatedWaitMs: position > 0 && averageMs !== null
+                    ? Math.round(Math.ceil((active + position - 1) / maxConcurrent) * averageMs)
+                    : null,
+                attempt: entry.attempt,
+                maxAttempts: retry.maxAttempts,
+                retryAt: entry.retryAt,
+                lastError: entry.lastError,
+            };
+        });
+        listeners.forEach(listener => listener());
+    };
+
+    const run = async (entry: InternalEntry) => {
+        const { signal } = entry.controller;
+        try {
+            for (;;) {
+                entry.status = 'running';
+                entry.retryAt = null;
+                notify();
+                try {
+                    const startedAt = Date.now();
+                    entry.resolve(await raceWithAbort(entry.task(signal), signal));
+                    durations.push(Date.now() - startedAt);
+                    if (durations.length > DURATION_SAMPLES) durations.shift();
+                    return;
+                } catch (err) {
+                    if (signal.aborted) throw new RequestCancelledError();
+                    if (!isTransientError(err) || entry.attempt >= retry.maxAttempts) throw err;
+
+                    const delayMs = computeRetryDelayMs(entry.attempt, err, retry);
+                    entry.status = 'retrying';
+                    entry.retryAt = Date.now() + delayMs;
+                    entry.lastError = err instanceof Error ? err.message : String(err);
+                    entry.attempt += 1;
+                    notify();
+                    await sleep(delayMs, signal);
+                }
+            }
+        } catch (err) {
+            entry.reject(err);
+        } finally {
+            entries = entries.filter(e => e !== entry);
+            pump();
+            notify();
+        }
+    };
+
+    const pump = () => {
+        const active = entries.filter(entry => entry.status !== 'queued').length;
+        waitingInOrder().slice(0, Math.max(0, maxConcurrent - active)).forEach(entry => {
+            entry.status = 'running';
+            run(entry);
+        });
+    };
+
+    /**
+     * Adds a request to the line. `task` receives a signal that aborts when the
+     * request is cancelled; aborting the caller's `signal` cancels it too.
+     */
+    const enqueue = <T>(label: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal, priority: QueuePriority = 'foreground'): QueuedRequest<T> => {
+        const id = nextId++;
+        if (signal?.aborted) {
+            return { id, promise: Promise.reject(new RequestCancelledError()) };
+        }
+        const promise = new Promise<T>((resolve, reject) => {
+            entries.push({
+                id,
+                label,
+                priority,
+                callerSignal: signal,
+                status: 'queued',
+                attempt: 1,
+                retryAt: null,
+                lastError: null,
+                controller: new AbortController(),
+                task,
+                resolve: resolve as (value: unknown) => void,
+                reject,
+            });
+        });
+        if (signal) {
+            const onAbort = () => cancel(id);
+            signal.addEventListener('abort', onAbort, { once: true });
+            promise.catch(() => {}).finally(() => signal.removeEventListener('abort', onAbort));
+        }
+        pump();
+        notify();
+        return { id, promise };
+    };
+
+    /** Cancels a request: removes it from the line, or aborts it while running or waiting to retry. */
+    const cancel = (id: number) => {
+        const entry = entries.find(e => e.id === id);
+        if (!entry) return;
+        if (entry.status === 'queued') {
+            entries = entries.filter(e => e !== entry);
+            entry.reject(new RequestCancelledError());
+            notify();
+        } else {
+            entry.controller.abort();
+        }
+    };
+
+    /** The live request enqueued with the caller's `signal`, so a caller can show its own place in line. */
+    const findRequest = (signal: AbortSignal): QueueEntry | undefined => {
+        const entry = entries.find(e => e.callerSignal === signal);
+        return entry && snapshot.find(view => view.id === entry.id);
+    };
+
+    const subscribe = (listener: () => void) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+    };
+
+    return {
+        maxConcurrent,
+        enqueue,
+        cancel,
+        findRequest,
+        subscribe,
+        getSnapshot: (): QueueEntry[] => snapshot,
+    };
+};
+
+export type RequestQueue = ReturnType<typeof createRequestQueue>;
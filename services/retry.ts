@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RetryOptions {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxAttempts: 4,
+    baseDelayMs: 2_000,
+    maxDelayMs: 60_000,
+};
+
+/** Rejection reason for requests the user cancelled. */
+export class RequestCancelledError extends Error {
+    constructor(message = 'The request was cancelled.') {
+        super(message);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+export const isCancelledError = (error: unknown): boolean =>
+    error instanceof RequestCancelledError || (error instanceof Error && error.name === 'AbortError');
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Whether a failed request is worth retrying: quota errors, server-side
+ * failures and dropped connections. Safety blocks, bad input and the model
+ * answering without an image are permanent.
+ */
+export const isTransientError = (error: unknown): boolean => {
+    if (isCancelledError(error)) return false;
+    const message = errorMessage(error);
+    return (
+        message.includes('"code":429') ||
+        message.includes('RESOURCE_EXHAUSTED') ||
+        message.includes('UNAVAILABLE') ||
+        /"code":\s*5\d\d/.test(message) ||
+        /\boverloaded\b/i.test(message) ||
+        message.includes('Failed to fetch') ||
+        message.includes('NetworkError')
+    );
+};
+
+/**
+ * Extracts a server-provided retry hint in milliseconds, if any. Understands
+ * Gemini's `"retryDelay":"23s"`, the proxy's "Try again in N seconds" and an
+ * explicit `retryAfterMs` property on the error.
+ */
+export const getRetryAfterMs = (error: unknown): number | null => {
+    const explicit = (error as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+    if (typeof explicit === 'number' && explicit >= 0) return explicit;
+
+    const message = errorMessage(error);
+    const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    if (retryDelay) return Math.round(parseFloat(retryDelay[1]) * 1000);
+    const tryAgain = message.match(/try again in (\d+(?:\.\d+)?) seconds?/i);
+    if (tryAgain) return Math.round(parseFloat(tryAgain[1]) * 1000);
+    return null;
+};
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential backoff with full
+ * jitter, or the server's hint when it asks for longer.
+ */
+export const computeRetryDelayMs = (attempt: number, error: unknown, options: RetryOptions = DEFAULT_RETRY_OPTIONS): number => {
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    const hint = getRetryAfterMs(error);
+    return Math.min(options.maxDelayMs, Math.max(jittered, hint ?? 0));
+};
+
+/** Resolves after `ms`, or rejects with `RequestCancelledError` if `signal` aborts first. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestCancelledError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(new RequestCancelledError());
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { OutfitLayer, OutfitTree, SessionSnapshot, SessionSummary } from '../types';
+import {
+    SESSIONS_STORE,
+    withStore,
+    withImageLock,
+    requestToPromise,
+    dehydrateImages,
+    hydrateImages,
+    pruneUnreferencedImages,
+} from './db';
+import { normalizeWardrobeItem } from './wardrobeService';
+import { getLayerGarments, getLayerPath } from '../lib/outfitTree';
+
+const LAST_SESSION_KEY = 'mari-fit:last-session-id';
+
+interface StoredSession {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    snapshot: unknown; // SessionSnapshot with image URLs replaced by store references
+}
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Each session holds one model and its outfits, so the UI presents sessions as models.
+const defaultSessionName = (createdAt: number) =>
+    `Model ${new Date(createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+
+export const getLastSessionId = (): string | null => {
+    try {
+        return localStorage.getItem(LAST_SESSION_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const setLastSessionId = (id: string | null) => {
+    try {
+        if (id) {
+            localStorage.setItem(LAST_SESSION_KEY, id);
+        } else {
+            localStorage.removeItem(LAST_SESSION_KEY);
+        }
+    } catch {
+        // Storage can be unavailable (e.g. private mode); restoring is best-effort.
+    }
+};
+
+const getStoredSession = (id: string) =>
+    withStore(SESSIONS_STORE, 'readonly', store => requestToPromise<StoredSession | undefined>(store.get(id)));
+
+/**
+ * Persists a session snapshot. Generated images are written to the image store
+ * as blobs; unchanged images are not re-written. Does not touch the last-session
+ * pointer: callers set it when the user opens a session, so a save finishing
+ * after the user left it cannot bring the session back on reload.
+ */
+export const saveSession = async (id: string, snapshot: SessionSnapshot): Promise<void> => {
+    await withImageLock(async () => {
+        const existing = await getStoredSession(id);
+        const now = Date.now();
+        const record: StoredSession = {
+            id,
+            name: existing?.name ?? defaultSessionName(now),
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+            snapshot: await dehydrateImages(snapshot),
+        };
+        await withStore(SESSIONS_STORE, 'readwrite', store => { store.put(record); });
+    });
+};
+
+/**
+ * Drops what lost its image in the store: poses and scenes without an image,
+ * and layers left without any pose, along with the outfits built on them.
+ * Returns null when the base model is gone, as nothing can be restored.
+ */
+const dropMissingImages = (snapshot: SessionSnapshot): SessionSnapshot | null => {
+    const cleaned = new Map<string, OutfitLayer | null>();
+    const clean = (id: string): OutfitLayer | null => {
+        if (cleaned.has(id)) return cleaned.get(id)!;
+        const layer = snapshot.outfitTree[id];
+        const poseImages = Object.fromEntries(Object.entries(layer?.poseImages ?? {}).filter(([, url]) => url));
+        const isKept = !!layer && Object.keys(poseImages).length > 0 && (layer.parentId === null || clean(layer.parentId) !== null);
+        const result = isKept ? {
+            ...layer,
+            poseImages,
+            ...(layer.sceneVariants && { sceneVariants: layer.sceneVariants.filter(scene => scene.imageUrl) }),
+        } : null;
+        cleaned.set(id, result);
+        return result;
+    };
+
+    const outfitTree: OutfitTree = {};
+    Object.keys(snapshot.outfitTree).forEach(id => {
+        const layer = clean(id);
+        if (layer) outfitTree[id] = layer;
+    });
+    const root = Object.values(outfitTree).find(layer => layer.parentId === null);
+    if (!snapshot.modelImageUrl || !root) return null;
+    return {
+        ...snapshot,
+        outfitTree,
+        currentLayerId: outfitTree[snapshot.currentLayerId] ? snapshot.currentLayerId : root.id,
+    };
+};
+
+export const loadSession = async (id: string): Promise<SessionSnapshot | null> => {
+    const record = await getStoredSession(id);
+    if (!record) return null;
+    const snapshot = await hydrateImages<SessionSnapshot>(record.snapshot);
+    const outfitTree: OutfitTree = {};
+    Object.values(snapshot.outfitTree).forEach(layer => {
+        outfitTree[layer.id] = {
+            ...layer,
+            garment: layer.garment ? normalizeWardrobeItem(layer.garment) : null,
+            ...(layer.look && { look: layer.look.map(normalizeWardrobeItem) }),
+        };
+    });
+    return dropMissingImages({ ...snapshot, outfitTree });
+};
+
+// Garments in the session's current outfit, read from the stored record
+// without hydrating any images.
+const countGarments = (snapshot: SessionSnapshot): number =>
+    getLayerPath(snapshot.outfitTree, snapshot.currentLayerId).flatMap(getLayerGarments).length;
+
+/** Lists saved sessions, most recently updated first, with the base model image as thumbnail. */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const records = await withStore(SESSIONS_STORE, 'readonly', store => requestToPromise<StoredSession[]>(store.getAll()));
+    const summaries = await Promise.all(records.map(async (record): Promise<SessionSummary> => {
+        const snapshot = record.snapshot as SessionSnapshot;
+        return {
+            id: record.id,
+            name: record.name,
+            createdAt: record.createdAt,
+            updatedAt: record.updatedAt,
+            thumbnailUrl: await hydrateImages<string>(snapshot.modelImageUrl).catch(() => null),
+            modelMode: snapshot.modelCreation.mode,
+            garmentCount: countGarments(snapshot),
+        };
+    }));
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    await withStore(SESSIONS_STORE, 'readwrite', async store => {
+        const record = await requestToPromise<StoredSession | undefined>(store.get(id));
+        if (record) store.put({ ...record, name: trimmed });
+    });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await withStore(SESSIONS_STORE, 'readwrite', store => { store.delete(id); });
+    if (getLastSessionId() === id) {
+        setLastSessionId(null);
+    }
+    await pruneUnreferencedImages();
+};
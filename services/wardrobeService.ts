@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ColorSwatch, GarmentCategory, WardrobeItem } from '../types';
+import {
+    WARDROBE_STORE,
+    withStore,
+    withImageLock,
+    requestToPromise,
+    dehydrateImages,
+    hydrateImages,
+    blobToDataUrl,
+    pruneUnreferencedImages,
+} from './db';
+
+/**
+ * Fills in metadata missing from items saved before the wardrobe carried
+ * categories, colors and tags.
+ */
+export const normalizeWardrobeItem = (item: Partial<WardrobeItem> & Pick<WardrobeItem, 'id' | 'name' | 'url'>): WardrobeItem => ({
+    category: 'top',
+    color: '',
+    tags: [],
+    source: 'upload',
+    createdAt: 0,
+    ...item,
+});
+
+/** Splits a comma-separated tag string into trimmed, lower-cased, unique tags. */
+export const parseTags = (input: string): string[] =>
+    Array.from(new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+const nameFromFile = (file: File) => file.name.replace(/\.[^.]+$/, '') || 'Garment';
+
+/**
+ * Builds a wardrobe item from an uploaded file. The image is read into a data
+ * URL so it survives a reload, unlike a blob URL.
+ */
+export const createWardrobeItemFromFile = async (
+    file: File,
+    details: Partial<Pick<WardrobeItem, 'name' | 'category' | 'color' | 'tags'>> = {},
+): Promise<WardrobeItem> => {
+    const category: GarmentCategory = details.category ?? 'top';
+    return {
+        id: `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: details.name?.trim() || nameFromFile(file),
+        url: await blobToDataUrl(file),
+        category,
+        color: details.color?.trim() ?? '',
+        tags: details.tags ?? [],
+        source: 'upload',
+        createdAt: Date.now(),
+    };
+};
+
+/**
+ * Builds a recolored variant of `original` from a generated image. Variants
+ * of variants link back to the first original, so a product's colorways stay
+ * grouped under one item.
+ */
+export const createColorwayItem = (original: WardrobeItem, color: ColorSwatch, imageUrl: string): WardrobeItem => ({
+    id: `colorway-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: `${original.name} (${color.name})`,
+    url: imageUrl,
+    category: original.category,
+    color: color.name,
+    tags: original.tags,
+    source: 'upload',
+    createdAt: Date.now(),
+    colorwayOf: original.colorwayOf ?? original.id,
+});
+
+export const listWardrobeItems = async (): Promise<WardrobeItem[]> => {
+    const records = await withStore(WARDROBE_STORE, 'readonly', store => requestToPromise(store.getAll()));
+    const items = await hydrateImages<WardrobeItem[]>(records);
+    // An item whose image is gone can't be tried on.
+    return items.filter(item => item.url).map(normalizeWardrobeItem);
+};
+
+/** Inserts or updates an item; its image is stored as a blob in the image store. */
+export const saveWardrobeItem = (item: WardrobeItem): Promise<void> => withImageLock(async () => {
+    const record = await dehydrateImages(item);
+    await withStore(WARDROBE_STORE, 'readwrite', store => { store.put(record); });
+});
+
+export const deleteWardrobeItem = async (id: string): Promise<void> => {
+    await withStore(WARDROBE_STORE, 'readwrite', store => { store.delete(id); });
+    await pruneUnreferencedImages();
+};
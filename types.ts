@@ -3,13 +3,115 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+export type ApparelCategory = 'top' | 'bottom' | 'dress' | 'outerwear' | 'shoes';
+
+// 'accessory' covers anything worn that has no dedicated category.
+export type AccessoryCategory = 'hat' | 'eyewear' | 'bag' | 'jewelry' | 'accessory';
+
+export type GarmentCategory = ApparelCategory | AccessoryCategory;
+
+export type WardrobeItemSource = 'upload' | 'default';
+
 export interface WardrobeItem {
   id: string;
   name: string;
   url: string;
+  category: GarmentCategory;
+  color: string; // Free-form color name, e.g. "navy" or "off-white"
+  tags: string[];
+  source: WardrobeItemSource;
+  createdAt: number;
+  colorwayOf?: string; // id of the item this was recolored from
 }
 
+export interface ColorSwatch {
+  name: string; // Human-readable, used in item names and prompts
+  hex: string; // "#rrggbb"
+}
+
+// How the model was created from the user's photo. Later generations read the
+// mode to decide how strictly to keep the body as it is.
+export type ModelCreationMode = 'faithful' | 'athletic' | 'custom';
+
+export interface ModelCreationSettings {
+  mode: ModelCreationMode;
+  customPrompt?: string; // Only used by "custom"
+}
+
+export interface SavedPose {
+  id: string;
+  instruction: string; // The text sent to the pose generator
+  source: 'builtin' | 'custom';
+  thumbnailUrl: string | null; // The first image generated in this pose
+  createdAt: number;
+}
+
+export type BodyAttribute = 'height' | 'shoulders' | 'build' | 'muscleTone' | 'posture';
+
+// Signed slider steps per attribute, relative to the unadjusted model. 0 and
+// missing both mean "leave as is".
+export type BodyAdjustment = Partial<Record<BodyAttribute, number>>;
+
 export interface OutfitLayer {
-  garment: WardrobeItem | null; // null represents the base model layer
+  id: string;
+  parentId: string | null; // null for the base model layer, the root of the tree
+  garment: WardrobeItem | null; // null for the base model layer and for looks
+  look?: WardrobeItem[]; // Garments applied together in one generation, innermost first
   poseImages: Record<string, string>; // Maps pose instruction to image URL
+  poseMetadata?: Record<string, GenerationMetadata>; // How each pose image was generated, by pose instruction
+  sceneVariants?: SceneVariant[]; // The outfit placed in other scenes; absent until one is generated
+  createdAt: number;
+}
+
+export interface SceneVariant {
+  id: string;
+  label: string; // Preset name, custom description or "Uploaded background"
+  poseInstruction: string; // The pose image the scene was generated from
+  imageUrl: string;
+  metadata?: GenerationMetadata;
+  createdAt: number;
+}
+
+// Provenance of a generated image, shown in the image inspector and included
+// in lookbook exports.
+export interface GenerationMetadata {
+  operation: string; // What was generated, e.g. "Applying garment"
+  provider: string; // "gemini", "proxy" or "mock"
+  model: string;
+  prompt: string;
+  inputHashes: string[]; // SHA-256 of each input image, in request order
+  latencyMs: number;
+  finishReason: string | null;
+  createdAt: number;
+}
+
+// Every outfit ever built in a session, as a tree of layers keyed by id. The
+// path from the root to a layer is the garment stack of that outfit; siblings
+// are alternative outfits sharing the same base.
+export type OutfitTree = Record<string, OutfitLayer>;
+
+// A garment waiting to be (re-)applied while the outfit stack is rebuilt after
+// removing, reordering or swapping a layer.
+export interface PendingLayer {
+  garments: WardrobeItem[]; // One garment, or a whole look
+  status: 'pending' | 'generating';
+}
+
+// Everything needed to restore the dressing screen after a reload.
+export interface SessionSnapshot {
+  modelImageUrl: string;
+  modelCreation: ModelCreationSettings;
+  outfitTree: OutfitTree;
+  currentLayerId: string;
+  currentPoseInstruction: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnailUrl: string | null; // The base model image
+  modelMode: ModelCreationMode;
+  garmentCount: number;
 }
@@ -5,4 +5,10 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   base: '/mari/',
+  server: {
+    // Forward API calls to the local proxy (`npm run server`) during development.
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
 })
@@ -3,7 +3,78 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { WardrobeItem } from './types';
+import { AccessoryCategory, GarmentCategory, WardrobeItem } from './types';
 
 // Default wardrobe items are removed to only allow user uploads.
 export const defaultWardrobe: WardrobeItem[] = [];
+
+export const MAX_GARMENT_NAME_LENGTH = 100;
+
+export const GARMENT_CATEGORIES: { value: GarmentCategory; label: string }[] = [
+  { value: 'top', label: 'Tops' },
+  { value: 'bottom', label: 'Bottoms' },
+  { value: 'dress', label: 'Dresses' },
+  { value: 'outerwear', label: 'Outerwear' },
+  { value: 'shoes', label: 'Shoes' },
+  { value: 'hat', label: 'Hats' },
+  { value: 'eyewear', label: 'Eyewear' },
+  { value: 'bag', label: 'Bags' },
+  { value: 'jewelry', label: 'Jewelry' },
+  { value: 'accessory', label: 'Other Accessories' },
+];
+
+const ACCESSORY_CATEGORIES: ReadonlySet<GarmentCategory> = new Set<AccessoryCategory>(['hat', 'eyewear', 'bag', 'jewelry', 'accessory']);
+
+export const isGarmentCategory = (value: unknown): value is GarmentCategory =>
+  GARMENT_CATEGORIES.some(category => category.value === value);
+
+/** Accessories are worn with an outfit rather than being part of it, and are prompted and listed separately. */
+export const isAccessoryCategory = (category: GarmentCategory): category is AccessoryCategory =>
+  ACCESSORY_CATEGORIES.has(category);
+
+export type WardrobeSort = 'newest' | 'oldest' | 'name' | 'category';
+
+export const WARDROBE_SORT_OPTIONS: { value: WardrobeSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'name', label: 'Name (A-Z)' },
+  { value: 'category', label: 'Category' },
+];
+
+export interface WardrobeQuery {
+  search: string;
+  category: GarmentCategory | 'all';
+  sort: WardrobeSort;
+}
+
+const categoryOrder = (category: GarmentCategory) =>
+  GARMENT_CATEGORIES.findIndex(c => c.value === category);
+
+/**
+ * Filters and sorts wardrobe items. The search text is split into words and
+ * every word must match the item's name, color, category or one of its tags.
+ */
+export const queryWardrobe = (items: WardrobeItem[], { search, category, sort }: WardrobeQuery): WardrobeItem[] => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const filtered = items.filter(item => {
+    if (category !== 'all' && item.category !== category) return false;
+    if (terms.length === 0) return true;
+    const haystack = [item.name, item.color, item.category, ...item.tags].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+
+  return filtered.sort((a, b) => {
+    switch (sort) {
+      case 'oldest':
+        return a.createdAt - b.createdAt;
+      case 'name':
+        return a.name.localeCompare(b.name);
+      case 'category':
+        return categoryOrder(a.category) - categoryOrder(b.category) || a.name.localeCompare(b.name);
+      case 'newest':
+      default:
+        return b.createdAt - a.createdAt;
+    }
+  });
+};